@@ -0,0 +1,98 @@
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+
+const SECRET_KEY = 'mcpServer.authToken';
+
+// リレーが読み取るトークンファイル (所有者のみ読み取り可能)
+// Token file read by the relay (readable by the owner only).
+export const AUTH_TOKEN_FILE = path.join(os.homedir(), '.vscode-as-mcp-server', 'auth-token');
+
+/**
+ * ローカル MCP HTTP サーバー用のベアラートークンを管理する
+ * Manages the bearer token that protects the local MCP HTTP server.
+ * トークンは SecretStorage に保存され、リレー用にファイルへも書き出されます。
+ * The token is kept in SecretStorage and mirrored to a file for the relay.
+ */
+export class AuthTokenManager implements vscode.Disposable {
+  private currentToken?: string;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly secrets: vscode.SecretStorage,
+    private readonly outputChannel: vscode.OutputChannel,
+  ) {
+    // 他のウィンドウでトークンがローテーションされた場合に追従する
+    // Pick up rotations performed in other VS Code windows.
+    this.disposables.push(this.secrets.onDidChange(async (event) => {
+      if (event.key === SECRET_KEY) {
+        this.currentToken = await this.secrets.get(SECRET_KEY);
+        this.outputChannel.appendLine('Auth token changed in another window; reloaded.');
+      }
+    }));
+  }
+
+  get token(): string | undefined {
+    return this.currentToken;
+  }
+
+  async initialize(): Promise<string> {
+    let token = await this.secrets.get(SECRET_KEY);
+    if (!token) {
+      token = generateToken();
+      await this.secrets.store(SECRET_KEY, token);
+      this.outputChannel.appendLine('Generated a new auth token for the MCP Server.');
+    }
+    this.currentToken = token;
+    await this.writeTokenFile(token);
+    return token;
+  }
+
+  async rotate(): Promise<string> {
+    const token = generateToken();
+    await this.secrets.store(SECRET_KEY, token);
+    this.currentToken = token;
+    await this.writeTokenFile(token);
+    this.outputChannel.appendLine('Auth token rotated.');
+    return token;
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+
+  private async writeTokenFile(token: string): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(AUTH_TOKEN_FILE), { recursive: true, mode: 0o700 });
+      await fs.chmod(path.dirname(AUTH_TOKEN_FILE), 0o700);
+      // mode は新しく作るファイルにしか適用されないため、既存のファイルはトークンを書き込む前に権限を絞る
+      // mode only applies to newly created files, so restrict an existing file before writing the token into it.
+      await fs.chmod(AUTH_TOKEN_FILE, 0o600).catch(() => undefined);
+      await fs.writeFile(AUTH_TOKEN_FILE, token, { encoding: 'utf8', mode: 0o600 });
+    } catch (err) {
+      this.outputChannel.appendLine(`Failed to write auth token file ${AUTH_TOKEN_FILE}: ${err}`);
+    }
+  }
+}
+
+function generateToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Authorization ヘッダーのベアラートークンを定数時間で比較する
+ * Compare the bearer token from an Authorization header in constant time.
+ */
+export function isAuthorized(authorizationHeader: string | undefined, expectedToken: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(authorizationHeader ?? '');
+  if (!match) {
+    return false;
+  }
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(expectedToken);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
@@ -1,17 +1,33 @@
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
-import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
 import express from 'express';
 import * as http from 'node:http';
 import * as vscode from 'vscode';
+import { isAuthorized } from './auth-token';
+import { DEFAULT_BIND_ADDRESS, DEFAULT_NETWORK_ACCESS_POLICY, isAllowedHost, isAllowedOrigin, NetworkAccessPolicy, toConnectHost } from './network-access';
+import { McpSessionKind } from './session-registry';
+import { KEEPALIVE_INTERVAL_MS, SSEServerTransport } from './sse-transport';
+import { isInitializeRequest, MCP_SESSION_ID_HEADER, sendJsonRpcError, StreamableHttpServerTransport } from './streamable-http-transport';
 
 export class BidiHttpTransport implements Transport {
   onclose?: () => void;
   onerror?: (error: Error) => void;
   onmessage?: (message: JSONRPCMessage) => void;
-  onServerStatusChanged?: (status: 'running' | 'stopped' | 'starting' | 'tool_list_updated') => void;
-  #serverStatus: 'running' | 'stopped' | 'starting' | 'tool_list_updated' = 'stopped';
-  private pendingResponses = new Map<string | number, (resp: JSONRPCMessage) => void>();
+  onServerStatusChanged?: (status: 'running' | 'stopped' | 'starting') => void;
+  // Streamable HTTP / SSE セッションが作成されたときに呼ばれる (セッション毎の MCP サーバーを接続する)
+  // Called when a Streamable HTTP or SSE session is created so a per-session MCP server can be connected.
+  onSessionCreated?: (session: Transport, kind: McpSessionKind) => Promise<void>;
+  #serverStatus: 'running' | 'stopped' | 'starting' = 'stopped';
+  // 内部リクエスト ID をキーにして、複数クライアントの同一 ID が衝突しないようにする
+  // Keyed by an internal request ID so identical IDs from different clients never collide.
+  private pendingResponses = new Map<string, { originalId: string | number; resolve: (resp: JSONRPCMessage) => void }>();
+  private requestCounter = 0;
   private httpServer?: http.Server; // Express server instance
+  private streamableSessions = new Map<string, StreamableHttpServerTransport>();
+  private legacySseSessions = new Map<string, SSEServerTransport>();
+  // リレー向けにサーバー発の通知を配信する /events ストリーム
+  // /events streams that deliver server-initiated notifications to the relay.
+  private eventStreams = new Set<express.Response>();
   private closingServerPromise: Promise<void> | null = null;
   private restartDelayMs = 1000;
 
@@ -19,22 +35,78 @@ export class BidiHttpTransport implements Transport {
     return this.serverStatus === 'running';
   }
 
-  private set serverStatus(status: 'running' | 'stopped' | 'starting' | 'tool_list_updated') {
+  private set serverStatus(status: 'running' | 'stopped' | 'starting') {
     this.#serverStatus = status;
     if (this.onServerStatusChanged) {
       this.onServerStatusChanged(status);
     }
   }
 
-  public get serverStatus(): 'running' | 'stopped' | 'starting' | 'tool_list_updated' {
+  public get serverStatus(): 'running' | 'stopped' | 'starting' {
     return this.#serverStatus;
   }
 
   constructor(
     readonly listenPort: number,
-    private readonly outputChannel: vscode.OutputChannel
+    private readonly outputChannel: vscode.OutputChannel,
+    // 現在の認証トークンを返す (undefined の場合は認証なし、null の場合は認証が必要なのにトークンがないため拒否)
+    // Returns the current auth token: undefined disables authentication, null rejects everything because a token is required but missing.
+    private readonly getAuthToken: () => string | null | undefined = () => undefined,
+    readonly bindAddress: string = DEFAULT_BIND_ADDRESS,
+    // 設定変更に追従するため、リクエスト毎に許可リストを取得する
+    // Fetched per request so allowlist changes apply without a restart.
+    private readonly getNetworkAccessPolicy: () => NetworkAccessPolicy = () => DEFAULT_NETWORK_ACCESS_POLICY,
   ) { }
 
+  private get baseUrl(): string {
+    return `http://${toConnectHost(this.bindAddress)}:${this.listenPort}`;
+  }
+
+  private authHeaders(): Record<string, string> {
+    const token = this.getAuthToken();
+    return token ? { 'Authorization': `Bearer ${token}` } : {};
+  }
+
+  // ベアラートークンを検証する Express ミドルウェア
+  // Express middleware that validates the bearer token.
+  private readonly requireAuth = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const token = this.getAuthToken();
+    if (token === undefined || (token !== null && isAuthorized(req.header('authorization'), token))) {
+      next();
+      return;
+    }
+    if (token === null) {
+      this.outputChannel.appendLine(`Rejected request because the auth token is unavailable: ${req.method} ${req.path}`);
+      res.status(503).send({ error: 'Service Unavailable: the auth token could not be loaded' });
+      return;
+    }
+
+    this.outputChannel.appendLine(`Rejected unauthenticated request: ${req.method} ${req.path} from ${req.socket.remoteAddress}`);
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).send({ error: 'Unauthorized' });
+  };
+
+  // 悪意のある Web ページからの操作を防ぐため、Host と Origin ヘッダーを検証する
+  // Validate the Host and Origin headers so a malicious web page cannot drive the editor.
+  private readonly validateHostAndOrigin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const policy = this.getNetworkAccessPolicy();
+    const host = req.header('host');
+    if (!isAllowedHost(host, policy.allowedHosts, this.bindAddress)) {
+      this.outputChannel.appendLine(`Rejected request with disallowed Host header: ${host ?? '(missing)'} (${req.method} ${req.path} from ${req.socket.remoteAddress})`);
+      res.status(403).send({ error: 'Forbidden: Host not allowed' });
+      return;
+    }
+
+    const origin = req.header('origin');
+    if (!isAllowedOrigin(origin, policy.allowedOrigins)) {
+      this.outputChannel.appendLine(`Rejected request with disallowed Origin header: ${origin} (${req.method} ${req.path} from ${req.socket.remoteAddress})`);
+      res.status(403).send({ error: 'Forbidden: Origin not allowed' });
+      return;
+    }
+
+    next();
+  };
+
   async requestHandover(): Promise<boolean> {
     this.outputChannel.appendLine('Requesting server handover');
 
@@ -44,10 +116,11 @@ export class BidiHttpTransport implements Transport {
     try {
   // 現在のサーバーに対してハンドオーバーリクエストを送信
   // Send a handover request to the current server.
-      const response = await fetch(`http://localhost:${this.listenPort}/request-handover`, {
+      const response = await fetch(`${this.baseUrl}/request-handover`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...this.authHeaders(),
         }
       });
 
@@ -105,6 +178,7 @@ export class BidiHttpTransport implements Transport {
     this.serverStatus = 'starting';
 
     const app = express();
+    app.use(this.validateHostAndOrigin);
 
     app.get('/ping', (_req: express.Request, res: express.Response) => {
       this.outputChannel.appendLine('Received ping request');
@@ -118,7 +192,7 @@ export class BidiHttpTransport implements Transport {
     });
 
     // Endpoint to handle handover requests
-    app.post('/request-handover', express.json(), (_req: express.Request, res: express.Response) => {
+    app.post('/request-handover', this.requireAuth, express.json(), (_req: express.Request, res: express.Response) => {
       this.outputChannel.appendLine('Received handover request');
 
       // Accept the handover request
@@ -127,31 +201,29 @@ export class BidiHttpTransport implements Transport {
       void this.closeServer('handover request');
     });
 
-    app.post('/notify-tools-updated', express.json(), (_req: express.Request, res: express.Response) => {
+    // 旧バージョンのリレー向けに残している (変更は notifications/tools/list_changed で通知される)
+    // Kept for older relays; changes are now announced through notifications/tools/list_changed.
+    app.post('/notify-tools-updated', this.requireAuth, express.json(), (_req: express.Request, res: express.Response) => {
       this.outputChannel.appendLine('Received tools updated notification');
-      vscode.window.showWarningMessage('The Tool List has been updated. Please restart the MCP Client (e.g., Claude Desktop) to notify it of the new Tool List. (For Claude Desktop, click the top hamburger menu -> File -> Exit.)');
-      this.serverStatus = 'tool_list_updated';
-
       res.send({ success: true });
     });
 
-    app.post('/', express.json(), async (req: express.Request, res: express.Response) => {
+    app.get('/events', this.requireAuth, (req: express.Request, res: express.Response) => this.handleEventStream(req, res));
+
+    app.post('/', this.requireAuth, express.json(), async (req: express.Request, res: express.Response) => {
       this.outputChannel.appendLine('Received message: ' + JSON.stringify(req.body));
       try {
         const message = req.body as JSONRPCMessage;
 
-        if (this.serverStatus === 'tool_list_updated' && (message as { method: string }).method === 'tools/list') {
-          this.serverStatus = 'running';
-        }
-
         if (this.onmessage) {
           if ('id' in message) {
             // Create a new promise for the response
+            const internalId = `bidi-${++this.requestCounter}`;
             const responsePromise = new Promise<JSONRPCMessage>((resolve) => {
-              this.pendingResponses.set(message.id, resolve);
+              this.pendingResponses.set(internalId, { originalId: message.id, resolve });
             });
             // Handle the request and wait for response
-            this.onmessage(message);
+            this.onmessage({ ...message, id: internalId });
             const resp = await responsePromise;
             res.send(resp);
           } else {
@@ -168,14 +240,23 @@ export class BidiHttpTransport implements Transport {
       }
     });
 
+    // Streamable HTTP endpoint (MCP 2025-03-26) for clients that connect without the relay
+    app.post('/mcp', this.requireAuth, express.json({ limit: '4mb' }), (req: express.Request, res: express.Response) => this.handleStreamableHttpRequest(req, res));
+    app.get('/mcp', this.requireAuth, (req: express.Request, res: express.Response) => this.handleStreamableHttpRequest(req, res));
+    app.delete('/mcp', this.requireAuth, (req: express.Request, res: express.Response) => this.handleStreamableHttpRequest(req, res));
+
+    // Legacy HTTP+SSE endpoints (MCP 2024-11-05) for older clients
+    app.get('/sse', this.requireAuth, (req: express.Request, res: express.Response) => this.handleLegacySseConnection(req, res));
+    app.post('/messages', this.requireAuth, express.json({ limit: '4mb' }), (req: express.Request, res: express.Response) => this.handleLegacySseMessage(req, res));
+
     // Only try to listen on the specified port
     const startServer = (port: number): Promise<number> => {
       console.trace('Starting server on port: ' + port);
       return new Promise((resolve, reject) => {
-        const server = app.listen(port)
+        const server = app.listen(port, this.bindAddress)
           .once('listening', () => {
             this.httpServer = server; // Store server instance
-            this.outputChannel.appendLine(`MCP Server running at :${port}`);
+            this.outputChannel.appendLine(`MCP Server running at :${port} (bound to ${this.bindAddress})`);
             resolve(port);
           })
           .once('error', (err: NodeJS.ErrnoException) => {
@@ -199,18 +280,129 @@ export class BidiHttpTransport implements Transport {
     }
   }
 
+  private async handleStreamableHttpRequest(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const sessionId = req.header(MCP_SESSION_ID_HEADER);
+      if (sessionId) {
+        const session = this.streamableSessions.get(sessionId);
+        if (!session) {
+          sendJsonRpcError(res, 404, ErrorCode.InvalidRequest, `Session not found: ${sessionId}`);
+          return;
+        }
+        await session.handleRequest(req, res);
+        return;
+      }
+
+      if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+        sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      if (!this.onSessionCreated) {
+        res.status(500).send('No session handler');
+        return;
+      }
+
+      const session = new StreamableHttpServerTransport(this.outputChannel);
+      this.streamableSessions.set(session.sessionId, session);
+      this.outputChannel.appendLine(`Streamable HTTP session created: ${session.sessionId}`);
+
+      // MCP サーバーの connect が onclose を上書きするため、接続後にラップする
+      // Wrap onclose after connecting, since the MCP server's connect() overwrites it.
+      await this.onSessionCreated(session, 'streamable-http');
+      const serverOnClose = session.onclose;
+      session.onclose = () => {
+        this.streamableSessions.delete(session.sessionId);
+        serverOnClose?.();
+      };
+
+      await session.handleRequest(req, res);
+    } catch (err) {
+      this.outputChannel.appendLine('Error handling Streamable HTTP request: ' + err);
+      if (!res.headersSent) {
+        res.status(500).send('Internal Server Error');
+      }
+    }
+  }
+
+  private async handleLegacySseConnection(_req: express.Request, res: express.Response): Promise<void> {
+    if (!this.onSessionCreated) {
+      res.status(500).send('No session handler');
+      return;
+    }
+
+    const session = new SSEServerTransport('/messages', res, this.outputChannel);
+    this.legacySseSessions.set(session.sessionId, session);
+    this.outputChannel.appendLine(`Legacy SSE session created: ${session.sessionId}`);
+
+    try {
+      // connect() が start() を呼び、endpoint イベントが送信される
+      // connect() calls start(), which sends the endpoint event.
+      await this.onSessionCreated(session, 'legacy-sse');
+      const serverOnClose = session.onclose;
+      session.onclose = () => {
+        this.legacySseSessions.delete(session.sessionId);
+        serverOnClose?.();
+      };
+    } catch (err) {
+      this.legacySseSessions.delete(session.sessionId);
+      this.outputChannel.appendLine('Error setting up legacy SSE session: ' + err);
+      if (!res.headersSent) {
+        res.status(500).send('Internal Server Error');
+      } else {
+        res.end();
+      }
+    }
+  }
+
+  private handleEventStream(req: express.Request, res: express.Response): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    this.eventStreams.add(res);
+    this.outputChannel.appendLine(`Event stream opened (${this.eventStreams.size} active)`);
+
+    const keepaliveTimer = setInterval(() => {
+      res.write(': keepalive\n\n');
+    }, KEEPALIVE_INTERVAL_MS);
+    req.on('close', () => {
+      clearInterval(keepaliveTimer);
+      this.eventStreams.delete(res);
+      this.outputChannel.appendLine(`Event stream closed (${this.eventStreams.size} active)`);
+    });
+  }
+
+  private async handleLegacySseMessage(req: express.Request, res: express.Response): Promise<void> {
+    const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+    const session = sessionId ? this.legacySseSessions.get(sessionId) : undefined;
+    if (!session) {
+      res.status(404).send(`Session not found: ${sessionId ?? '(missing sessionId)'}`);
+      return;
+    }
+    await session.handlePostMessage(req, res, req.body);
+  }
+
   async send(message: JSONRPCMessage): Promise<void> {
     this.outputChannel.appendLine('Sending message: ' + JSON.stringify(message));
 
-    if ('id' in message && 'result' in message) {
+    if ('id' in message && ('result' in message || 'error' in message)) {
       // This is a response to a previous request
-      const resolve = this.pendingResponses.get(message.id);
-      if (resolve) {
-        resolve(message);
-        this.pendingResponses.delete(message.id);
+      const pending = this.pendingResponses.get(String(message.id));
+      if (pending) {
+        pending.resolve({ ...message, id: pending.originalId });
+        this.pendingResponses.delete(String(message.id));
       } else {
         this.outputChannel.appendLine(`No pending response for ID: ${message.id}`);
       }
+    } else if ('method' in message && !('id' in message)) {
+      // サーバー発の通知 (tools/list_changed など) を /events の購読者に配信する
+      // Broadcast server-initiated notifications (e.g. tools/list_changed) to /events subscribers.
+      for (const stream of this.eventStreams) {
+        stream.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+      }
     }
   }
 
@@ -237,6 +429,17 @@ export class BidiHttpTransport implements Transport {
     const serverToClose = this.httpServer;
     this.outputChannel.appendLine(`Stopping server (${reason})`);
 
+    // 開いたままの SSE ストリームがあると close が完了しないため、先にセッションを閉じる
+    // Close sessions first; open SSE streams would otherwise keep the server from closing.
+    const sessions: Transport[] = [...this.streamableSessions.values(), ...this.legacySseSessions.values()];
+    this.streamableSessions.clear();
+    this.legacySseSessions.clear();
+    await Promise.all(sessions.map((session) => session.close()));
+    for (const stream of this.eventStreams) {
+      stream.end();
+    }
+    this.eventStreams.clear();
+
     this.closingServerPromise = new Promise<void>((resolve) => {
       serverToClose.close((err) => {
         if (err) {
@@ -1,6 +1,29 @@
 import * as vscode from 'vscode';
 
+import { AuthTokenManager } from './auth-token';
 import { BidiHttpTransport } from './bidi-http-transport';
+import { McpSession, SessionRegistry } from './session-registry';
+
+type SessionQuickPickItem = vscode.QuickPickItem & { session: McpSession };
+
+// セッション一覧を QuickPick で表示し、選択されたセッションを返す
+// Show the sessions in a QuickPick and return the selected one.
+async function pickSession(registry: SessionRegistry, placeHolder: string): Promise<McpSession | undefined> {
+  const sessions = registry.list();
+  if (sessions.length === 0) {
+    vscode.window.showInformationMessage('No active MCP sessions. (Relay clients connect without a session.)');
+    return undefined;
+  }
+
+  const items: SessionQuickPickItem[] = sessions.map((session) => ({
+    label: registry.describe(session),
+    description: session.kind,
+    detail: `${session.id} · connected ${session.connectedAt.toLocaleTimeString()} · last activity ${session.lastActivityAt.toLocaleTimeString()}`,
+    session,
+  }));
+  const selection = await vscode.window.showQuickPick(items, { placeHolder });
+  return selection?.session;
+}
 
 export function registerVSCodeCommands(
   context: vscode.ExtensionContext,
@@ -8,6 +31,8 @@ export function registerVSCodeCommands(
   startServer: (port: number) => Promise<void>,
   stopServer: () => Promise<void>,
   getTransport: () => BidiHttpTransport | undefined,
+  getSessionRegistry: () => SessionRegistry | undefined,
+  getAuthTokenManager: () => AuthTokenManager | undefined,
 ) {
   // テキストエディタのアクションコマンドを登録
   // Register action commands for the text editor.
@@ -71,4 +96,86 @@ export function registerVSCodeCommands(
       }
     })
   );
+
+  // COMMAND PALETTE COMMAND: List connected MCP sessions
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpServer.listSessions', async () => {
+      const registry = getSessionRegistry();
+      if (!registry) {
+        vscode.window.showWarningMessage('MCP Server is not running.');
+        return;
+      }
+
+      outputChannel.appendLine(`Active MCP sessions: ${registry.list().length}`);
+      for (const session of registry.list()) {
+        outputChannel.appendLine(`  - ${session.id} (${session.kind}, ${registry.describe(session)})`);
+      }
+
+      const session = await pickSession(registry, 'Active MCP sessions');
+      if (!session) {
+        return;
+      }
+
+      const choice = await vscode.window.showInformationMessage(
+        `Session ${registry.describe(session)} (${session.kind})`,
+        'Disconnect',
+      );
+      if (choice === 'Disconnect') {
+        await registry.disconnect(session.id);
+      }
+    }),
+  );
+
+  // COMMAND PALETTE COMMAND: Disconnect an MCP session
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpServer.disconnectSession', async () => {
+      const registry = getSessionRegistry();
+      if (!registry) {
+        vscode.window.showWarningMessage('MCP Server is not running.');
+        return;
+      }
+
+      const session = await pickSession(registry, 'Select the MCP session to disconnect');
+      if (!session) {
+        return;
+      }
+
+      if (await registry.disconnect(session.id)) {
+        vscode.window.showInformationMessage(`Disconnected MCP session ${registry.describe(session)}.`);
+      }
+    }),
+  );
+
+  // COMMAND PALETTE COMMAND: Rotate the auth token
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpServer.rotateAuthToken', async () => {
+      const manager = getAuthTokenManager();
+      if (!manager) {
+        vscode.window.showWarningMessage('MCP Server is not running.');
+        return;
+      }
+
+      try {
+        await manager.rotate();
+        vscode.window.showInformationMessage('MCP Server auth token rotated. Clients configured with the old token must be updated.');
+      } catch (err) {
+        outputChannel.appendLine(`Failed to rotate auth token: ${err}`);
+        vscode.window.showErrorMessage(`Failed to rotate auth token: ${err}`);
+      }
+    }),
+  );
+
+  // COMMAND PALETTE COMMAND: Copy the auth token for clients that connect without the relay
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpServer.copyAuthToken', async () => {
+      const token = getAuthTokenManager()?.token;
+      if (!token) {
+        vscode.window.showWarningMessage('No MCP Server auth token is available.');
+        return;
+      }
+
+      await vscode.env.clipboard.writeText(token);
+      vscode.window.showInformationMessage('MCP Server auth token copied to the clipboard.');
+    }),
+  );
 }
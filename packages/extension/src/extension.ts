@@ -1,20 +1,34 @@
 import * as vscode from 'vscode';
+import { AuthTokenManager } from './auth-token';
 import { BidiHttpTransport } from './bidi-http-transport';
 import { registerVSCodeCommands } from './commands';
 import { createMcpServer, extensionDisplayName } from './mcp-server';
+import { DEFAULT_ALLOWED_HOSTS, DEFAULT_BIND_ADDRESS, NetworkAccessPolicy } from './network-access';
+import { SessionRegistry } from './session-registry';
+import { resolveSocketListenTarget, SockTransport } from './sock-transport';
+import { ToolFilter } from './tool-filter';
+import { ExternalToolWatcher } from './tools/register_external_tools';
 import { DIFF_VIEW_URI_SCHEME } from './utils/DiffViewProvider';
+import { EditJournal } from './utils/edit_journal';
 
 // MCP Server のステータスを表示するステータスバーアイテム
 // Status bar item that displays the MCP Server status.
 let serverStatusBarItem: vscode.StatusBarItem;
 let transport: BidiHttpTransport | undefined;
+let socketTransport: SockTransport | undefined;
 
 // Active MCP server instance. Undefined when the server lifecycle is disabled (e.g., under tests).
 let mcpServerInstance: ReturnType<typeof createMcpServer> | undefined;
 
+// Per-client MCP sessions (Streamable HTTP etc.), each backed by its own server instance.
+let sessionRegistry: SessionRegistry | undefined;
+
+// Bearer token required by the HTTP endpoints. Undefined under tests.
+let authTokenManager: AuthTokenManager | undefined;
+
 // ステータスバーを更新する関数
 // Function to update the status bar.
-function updateServerStatusBar(status: 'running' | 'stopped' | 'starting' | 'tool_list_updated') {
+function updateServerStatusBar(status: 'running' | 'stopped' | 'starting') {
   if (!serverStatusBarItem) {
     return;
   }
@@ -30,11 +44,6 @@ function updateServerStatusBar(status: 'running' | 'stopped' | 'starting' | 'too
       serverStatusBarItem.tooltip = 'Starting...';
       serverStatusBarItem.command = undefined;
       break;
-    case 'tool_list_updated':
-      serverStatusBarItem.text = '$(warning) MCP Server';
-      serverStatusBarItem.tooltip = 'Tool list updated - Restart MCP Client';
-      serverStatusBarItem.command = 'mcpServer.stopServer';
-      break;
     case 'stopped':
     default:
       serverStatusBarItem.text = '$(circle-slash) MCP Server';
@@ -60,9 +69,40 @@ export const activate = async (context: vscode.ExtensionContext) => {
     updateServerStatusBar('stopped');
   } else {
     // Initialize the MCP server instance
-    mcpServerInstance = createMcpServer(outputChannel);
+    const toolFilter = new ToolFilter(outputChannel);
+    context.subscriptions.push(toolFilter);
+    const externalToolWatcher = new ExternalToolWatcher(outputChannel);
+    context.subscriptions.push(externalToolWatcher);
+    mcpServerInstance = createMcpServer(outputChannel, toolFilter, externalToolWatcher);
+    sessionRegistry = new SessionRegistry(outputChannel, () => createMcpServer(outputChannel, toolFilter, externalToolWatcher));
+    context.subscriptions.push(sessionRegistry);
+
+    authTokenManager = new AuthTokenManager(context.secrets, outputChannel);
+    context.subscriptions.push(authTokenManager);
+    try {
+      await authTokenManager.initialize();
+    } catch (err) {
+      outputChannel.appendLine(`Failed to initialize auth token: ${err}`);
+      void vscode.window.showErrorMessage(`${extensionDisplayName}: Failed to load the auth token, so requests will be rejected until it is available (${err}). Set mcpServer.requireAuthentication to false to disable authentication.`);
+    }
   }
 
+  // 認証が有効な場合のみトークンを返す。有効なのにトークンがなければ null (すべての要求を拒否する)
+  // Return the token only while authentication is enabled; null when it is enabled but there is no token, so every request is rejected.
+  const getAuthToken = () => vscode.workspace.getConfiguration('mcpServer').get<boolean>('requireAuthentication', true)
+    ? authTokenManager?.token ?? null
+    : undefined;
+
+  // Host / Origin の許可リストは設定から都度読み込む
+  // Read the Host/Origin allowlists from the settings on every request.
+  const getNetworkAccessPolicy = (): NetworkAccessPolicy => {
+    const config = vscode.workspace.getConfiguration('mcpServer');
+    return {
+      allowedHosts: config.get<string[]>('allowedHosts', DEFAULT_ALLOWED_HOSTS),
+      allowedOrigins: config.get<string[]>('allowedOrigins', []),
+    };
+  };
+
   // Create status bar item
   serverStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
   context.subscriptions.push(serverStatusBarItem);
@@ -75,7 +115,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
       return;
     }
 
-    if (transport) {
+    if (transport || socketTransport) {
       outputChannel.appendLine('DEBUG: Existing MCP Server instance detected. Stopping before restart.');
       try {
         await stopServer();
@@ -84,18 +124,54 @@ export const activate = async (context: vscode.ExtensionContext) => {
       }
     }
 
-    outputChannel.appendLine(`DEBUG: Starting MCP Server on port ${port}...`);
-    transport = new BidiHttpTransport(port, outputChannel);
+    const transportMode = vscode.workspace.getConfiguration('mcpServer').get<'http' | 'socket' | 'both'>('transport', 'http');
+    if (transportMode !== 'http') {
+      await startSocketServer();
+      if (transportMode === 'socket') {
+        updateServerStatusBar('running');
+        return;
+      }
+    }
+
+    const bindAddress = vscode.workspace.getConfiguration('mcpServer').get<string>('bindAddress', DEFAULT_BIND_ADDRESS);
+    outputChannel.appendLine(`DEBUG: Starting MCP Server on ${bindAddress}:${port}...`);
+    transport = new BidiHttpTransport(port, outputChannel, getAuthToken, bindAddress, getNetworkAccessPolicy);
     // サーバー状態変更のイベントハンドラを設定
     // Register the event handler for server status changes.
     transport.onServerStatusChanged = (status) => {
       updateServerStatusBar(status);
     };
+    // Streamable HTTP / SSE の各セッションには専用の MCP サーバーを割り当てる
+    // Each Streamable HTTP or SSE session gets its own MCP server instance.
+    const registry = sessionRegistry;
+    transport.onSessionCreated = async (session, kind) => {
+      await registry?.connect(kind, session);
+    };
 
   await mcpServerInstance.connect(transport); // connect calls transport.start().
     updateServerStatusBar(transport.serverStatus);
   }
 
+  // ソケット (UNIX ドメインソケット / 名前付きパイプ) で待ち受ける。HTTP と同じトークンで認証する
+  // Listen on a socket (UNIX domain socket / named pipe) for local agents, authenticated with the same token as HTTP.
+  async function startSocketServer() {
+    const socketPath = vscode.workspace.getConfiguration('mcpServer').get<string>('socketPath', '');
+    const listenTarget = resolveSocketListenTarget(socketPath);
+    outputChannel.appendLine(`DEBUG: Starting MCP Server socket at ${listenTarget}...`);
+
+    const registry = sessionRegistry;
+    socketTransport = new SockTransport(listenTarget, outputChannel, getAuthToken);
+    socketTransport.onSessionCreated = async (session) => {
+      await registry?.connect('socket', session);
+    };
+    try {
+      await socketTransport.start();
+    } catch (err) {
+      socketTransport = undefined;
+      throw err;
+    }
+  }
+
   async function stopServer() {
     if (!mcpServerInstance) {
       outputChannel.appendLine('DEBUG: stopServer called but MCP Server is disabled. Nothing to stop.');
@@ -104,6 +180,15 @@ export const activate = async (context: vscode.ExtensionContext) => {
       return;
     }
 
+    if (socketTransport) {
+      try {
+        await socketTransport.close();
+      } catch (err) {
+        outputChannel.appendLine(`Failed to close socket transport cleanly: ${err}`);
+      }
+      socketTransport = undefined;
+    }
+
     if (!transport) {
       outputChannel.appendLine('DEBUG: stopServer called without an active transport; closing MCP Server instance.');
       try {
@@ -141,6 +226,10 @@ export const activate = async (context: vscode.ExtensionContext) => {
     }
   })();
 
+  // text_editor の編集履歴をワークスペースごとのストレージから読み込む
+  // Load the text_editor edit history from the per-workspace storage.
+  await EditJournal.getInstance().initialize(context.storageUri);
+
   // DiffViewProvider の URI スキームを mcp-diff に変更
   // Change the DiffViewProvider URI scheme to mcp-diff.
   context.subscriptions.push(
@@ -170,7 +259,7 @@ export const activate = async (context: vscode.ExtensionContext) => {
   }
 
   // Register VSCode commands
-  registerVSCodeCommands(context, outputChannel, startServer, stopServer, () => transport);
+  registerVSCodeCommands(context, outputChannel, startServer, stopServer, () => transport, () => sessionRegistry, () => authTokenManager);
 
   outputChannel.appendLine(`${extensionDisplayName} activated.`);
 };
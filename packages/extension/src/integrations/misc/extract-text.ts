@@ -5,7 +5,38 @@ import * as path from "path"
 import fs from "fs/promises"
 import { isBinaryFile } from "isbinaryfile"
 import mammoth from "mammoth"
-// import pdf from "pdf-parse/lib/pdf-parse"
+// pdf-parse の index.js はデバッグ用のコードを含むため、lib から直接読み込む
+// Import from lib directly because the index.js of pdf-parse runs debug code.
+import pdf from "pdf-parse/lib/pdf-parse"
+
+// テキストとして抽出できる (openTextDocument では読めない) ドキュメントの拡張子
+// Extensions of documents whose text can be extracted (and that openTextDocument cannot read).
+export const RICH_DOCUMENT_EXTENSIONS = [".pdf", ".docx", ".ipynb"]
+
+// エラーメッセージに示す、よくあるバイナリファイルの MIME タイプ
+// MIME types of common binary files, shown in error messages.
+const BINARY_MIME_TYPES: Record<string, string> = {
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".gif": "image/gif",
+	".webp": "image/webp",
+	".bmp": "image/bmp",
+	".ico": "image/vnd.microsoft.icon",
+	".zip": "application/zip",
+	".gz": "application/gzip",
+	".tar": "application/x-tar",
+	".wasm": "application/wasm",
+	".mp3": "audio/mpeg",
+	".wav": "audio/wav",
+	".mp4": "video/mp4",
+	".woff": "font/woff",
+	".woff2": "font/woff2",
+	".ttf": "font/ttf",
+	".doc": "application/msword",
+	".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+}
 
 export async function extractTextFromFile(filePath: string): Promise<string> {
 	try {
@@ -15,8 +46,8 @@ export async function extractTextFromFile(filePath: string): Promise<string> {
 	}
 	const fileExtension = path.extname(filePath).toLowerCase()
 	switch (fileExtension) {
-		// case ".pdf":
-		// 	return extractTextFromPDF(filePath)
+		case ".pdf":
+			return extractTextFromPDF(filePath)
 		case ".docx":
 			return extractTextFromDOCX(filePath)
 		case ".ipynb":
@@ -26,16 +57,18 @@ export async function extractTextFromFile(filePath: string): Promise<string> {
 			if (!isBinary) {
 				return addLineNumbers(await fs.readFile(filePath, "utf8"))
 			} else {
-				throw new Error(`Cannot read text for file type: ${fileExtension}`)
+				const { size } = await fs.stat(filePath)
+				const mimeType = BINARY_MIME_TYPES[fileExtension] ?? "application/octet-stream"
+				throw new Error(`Cannot read text for file type: ${fileExtension || "(none)"} (${mimeType}, ${size} bytes)`)
 			}
 	}
 }
 
-// async function extractTextFromPDF(filePath: string): Promise<string> {
-// 	const dataBuffer = await fs.readFile(filePath)
-// 	const data = await pdf(dataBuffer)
-// 	return addLineNumbers(data.text)
-// }
+async function extractTextFromPDF(filePath: string): Promise<string> {
+	const dataBuffer = await fs.readFile(filePath)
+	const data = await pdf(dataBuffer)
+	return addLineNumbers(data.text)
+}
 
 async function extractTextFromDOCX(filePath: string): Promise<string> {
 	const result = await mammoth.extractRawText({ path: filePath })
@@ -49,7 +82,10 @@ async function extractTextFromIPYNB(filePath: string): Promise<string> {
 
 	for (const cell of notebook.cells) {
 		if ((cell.cell_type === "markdown" || cell.cell_type === "code") && cell.source) {
-			extractedText += cell.source.join("\n") + "\n"
+			// source は文字列か、改行を含んだ行の配列のどちらか
+			// source is either a string or an array of lines that already end with their line breaks
+			const source: string = Array.isArray(cell.source) ? cell.source.join("") : cell.source
+			extractedText += source.endsWith("\n") ? source : source + "\n"
 		}
 	}
 
@@ -0,0 +1,6 @@
+// pdf-parse の index.js はデバッグ用のコードを含むため lib から直接読み込む。その型は @types/pdf-parse と同じ
+// extract-text imports pdf-parse from lib to skip the debug code in its index.js; the types are those of @types/pdf-parse.
+declare module "pdf-parse/lib/pdf-parse" {
+	import PdfParse = require("pdf-parse")
+	export = PdfParse
+}
@@ -3,12 +3,15 @@ import { McpServer, ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js
 import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol';
 import { CallToolRequestSchema, CallToolResult, ErrorCode, ListResourcesRequestSchema, ListToolsRequestSchema, ListToolsResult, McpError, ReadResourceRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
 import dedent from 'dedent';
+import { createHash } from 'node:crypto';
 import * as vscode from 'vscode';
-import { DiagnosticSeverity } from 'vscode';
 import { AnyZodObject, z, ZodRawShape } from 'zod';
 import { zodToJsonSchema } from "zod-to-json-schema";
 import * as packageJson from '../package.json';
-import { codeCheckerTool } from './tools/code_checker';
+import { ToolFilter } from './tool-filter';
+import { codeActionsSchema, codeActionsTool } from './tools/code_actions';
+import { codeCheckerSchema, codeCheckerTool } from './tools/code_checker';
+import { codeNavigationSchema, codeNavigationTool } from './tools/code_navigation';
 import {
   listDebugSessions,
   listDebugSessionsSchema,
@@ -17,14 +20,21 @@ import {
   stopDebugSession,
   stopDebugSessionSchema,
 } from './tools/debug_tools';
+import { documentSymbolsSchema, documentSymbolsTool } from './tools/document_symbols';
 import { executeCommandSchema, executeCommandToolHandler } from './tools/execute_command';
 import { executeVSCodeCommandSchema, executeVSCodeCommandToolHandler } from './tools/execute_vscode_command';
+import { findFilesSchema, findFilesTool } from './tools/find_files';
 import { focusEditorTool } from './tools/focus_editor';
+import { formatDocumentSchema, formatDocumentTool } from './tools/format_document';
 import { getTerminalOutputSchema, getTerminalOutputToolHandler } from './tools/get_terminal_output';
+import { hoverInfoSchema, hoverInfoTool } from './tools/hover_info';
 import { listDirectorySchema, listDirectoryTool } from './tools/list_directory';
 import { listVSCodeCommandsSchema, listVSCodeCommandsToolHandler } from './tools/list_vscode_commands';
 import { previewUrlSchema, previewUrlToolHandler } from './tools/preview_url';
-import { registerExternalTools } from './tools/register_external_tools';
+import { ExternalToolWatcher, registerExternalTools, syncExternalTools } from './tools/register_external_tools';
+import { renameSymbolSchema, renameSymbolTool } from './tools/rename_symbol';
+import { searchSymbolSchema, searchSymbolTool } from './tools/search_symbol';
+import { searchTextSchema, searchTextTool } from './tools/search_text';
 import { textEditorSchema, textEditorTool } from './tools/text_editor';
 
 export const extensionName = 'vscode-mcp-server';
@@ -40,6 +50,10 @@ export class ToolRegistry {
   private _registeredTools: { [name: string]: RegisteredTool } = {};
   private _toolHandlersInitialized = false;
   private _outputChannel?: vscode.OutputChannel;
+  // クライアントに最後に公開したツール一覧のハッシュ (一覧取得前は undefined)
+  // Hash of the tool list last exposed to the client (undefined until it has been listed).
+  private _lastToolListHash?: string;
+  private _toolListChangeScheduled = false;
 
   private logMessage(message: string): void {
     try {
@@ -52,7 +66,17 @@ export class ToolRegistry {
     }
   }
 
-  constructor(readonly server: Server) { }
+  constructor(
+    readonly server: Server,
+    // 設定で無効化されたツールを一覧と呼び出しの両方から除外する
+    // Hides tools disabled in the settings from both listing and calls.
+    private readonly toolFilter?: ToolFilter,
+  ) { }
+
+  private isToolEnabled(name: string): boolean {
+    return this.toolFilter?.isEnabled(name) ?? true;
+  }
+
   toolWithRawInputSchema(
     name: string,
     description: string,
@@ -73,6 +97,7 @@ export class ToolRegistry {
 
     this.#setToolRequestHandlers();
     this.logMessage(`Registered Tool ${name}`);
+    this.notifyToolListChanged();
   }
   tool<Args extends ZodRawShape>(
     name: string,
@@ -94,7 +119,70 @@ export class ToolRegistry {
 
     this.#setToolRequestHandlers();
     this.logMessage(`Registered Tool ${name}`);
+    this.notifyToolListChanged();
+  }
+
+  hasTool(name: string): boolean {
+    return name in this._registeredTools;
+  }
+
+  removeTool(name: string): void {
+    if (!this._registeredTools[name]) {
+      return;
+    }
+    delete this._registeredTools[name];
+    this.logMessage(`Removed Tool ${name}`);
+    this.notifyToolListChanged();
+  }
+
+  // 生の inputSchema で登録されたツール (外部ツールプロバイダー由来) の名前
+  // Names of tools registered with a raw inputSchema, i.e. provided by another tool provider.
+  externalToolNames(): string[] {
+    return Object.entries(this._registeredTools)
+      .filter(([, tool]) => tool.inputSchema !== undefined)
+      .map(([name]) => name);
   }
+
+  /**
+   * 公開中のツール一覧が変わっていれば notifications/tools/list_changed を送信する
+   * Send notifications/tools/list_changed if the exposed tool list has changed.
+   * 連続した登録・削除をまとめるため、次のタイマーで一度だけ比較します。
+   * Comparison is deferred to the next timer tick so bursts of changes produce a single notification.
+   */
+  notifyToolListChanged(): void {
+    if (this._toolListChangeScheduled) {
+      return;
+    }
+    this._toolListChangeScheduled = true;
+    setTimeout(() => {
+      this._toolListChangeScheduled = false;
+      if (this._lastToolListHash === undefined) {
+        return;
+      }
+      const hash = hashToolList(this.listTools());
+      if (hash === this._lastToolListHash) {
+        return;
+      }
+      this._lastToolListHash = hash;
+      this.server.sendToolListChanged().catch((error) => {
+        this.logMessage(`Failed to send tools/list_changed: ${error}`);
+      });
+      this.logMessage('Sent notifications/tools/list_changed');
+    }, 0);
+  }
+
+  private listTools(): Tool[] {
+    return Object.entries(this._registeredTools).filter(([name]) => this.isToolEnabled(name)).map(([name, tool]): Tool => ({
+      name,
+      description: tool.description,
+      inputSchema: tool.inputSchema
+        ?? (tool.inputZodSchema && (zodToJsonSchema(tool.inputZodSchema, {
+          strictUnions: true,
+        }) as Tool["inputSchema"]))
+        ?? { type: "object" as const },
+    }));
+  }
+
   #setToolRequestHandlers() {
     if (this._toolHandlersInitialized) {
       return;
@@ -108,20 +196,14 @@ export class ToolRegistry {
     );
 
     this.server.registerCapabilities({
-      tools: {},
+      tools: { listChanged: true },
     });
 
-    this.server.setRequestHandler(ListToolsRequestSchema, (): ListToolsResult => ({
-      tools: Object.entries(this._registeredTools).map(([name, tool]): Tool => ({
-        name,
-        description: tool.description,
-        inputSchema: tool.inputSchema
-          ?? (tool.inputZodSchema && (zodToJsonSchema(tool.inputZodSchema, {
-            strictUnions: true,
-          }) as Tool["inputSchema"]))
-          ?? { type: "object" as const },
-      })),
-    }));
+    this.server.setRequestHandler(ListToolsRequestSchema, (): ListToolsResult => {
+      const tools = this.listTools();
+      this._lastToolListHash = hashToolList(tools);
+      return { tools };
+    });
 
     this.server.setRequestHandler(
       CallToolRequestSchema,
@@ -133,6 +215,12 @@ export class ToolRegistry {
             `Tool ${request.params.name} not found`,
           );
         }
+        if (!this.isToolEnabled(request.params.name)) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Tool ${request.params.name} is disabled by the mcpServer.enabledTools / mcpServer.disabledTools settings`,
+          );
+        }
 
         if (tool.inputSchema) {
           // Skip validation because raw inputschema tool is used by another tool provider
@@ -188,7 +276,15 @@ export class ToolRegistry {
   }
 }
 
-export function createMcpServer(_outputChannel: vscode.OutputChannel): McpServer {
+function hashToolList(tools: Tool[]): string {
+  return createHash('sha256').update(JSON.stringify(tools)).digest('hex');
+}
+
+export function createMcpServer(
+  _outputChannel: vscode.OutputChannel,
+  toolFilter?: ToolFilter,
+  externalToolWatcher?: ExternalToolWatcher,
+): McpServer {
   console.log(`[mcp] package.json version resolved to: ${packageJson?.version}`);
   console.log(`[mcp] packageJson object:`, JSON.stringify(packageJson, null, 2));
 
@@ -202,17 +298,41 @@ export function createMcpServer(_outputChannel: vscode.OutputChannel): McpServer
   const mcpServer = new McpServer(manifest, {
     capabilities: {
       resources: {},
-      tools: {},
+      tools: { listChanged: true },
     },
   });
 
-  const toolRegistry = new ToolRegistry(mcpServer.server);
+  const toolRegistry = new ToolRegistry(mcpServer.server, toolFilter);
 
   // Register tools
   registerTools(toolRegistry);
   // Register resource handlers
   registerResourceHandlers(mcpServer);
 
+  // 接続中は設定や外部ツールの変更をクライアントに通知する。
+  // While connected, tell the client about setting or external tool changes.
+  // リレーは initialize を送らず、停止後に同じインスタンスへ再接続されることもあるため、接続のたびに監視を始め、接続が閉じたらやめる
+  // The relay never sends initialize and the same instance may be reconnected after a stop, so watching starts on every connect and ends when the connection closes.
+  let disposables: vscode.Disposable[] = [];
+  const stopWatching = () => {
+    for (const disposable of disposables) {
+      disposable.dispose();
+    }
+    disposables = [];
+  };
+  const connect = mcpServer.connect.bind(mcpServer);
+  mcpServer.connect = async (transport) => {
+    await connect(transport);
+    stopWatching();
+    if (toolFilter) {
+      disposables.push(toolFilter.onDidChange(() => toolRegistry.notifyToolListChanged()));
+    }
+    if (externalToolWatcher) {
+      disposables.push(externalToolWatcher.onDidChange(() => syncExternalTools(toolRegistry)));
+    }
+  };
+  mcpServer.server.onclose = stopWatching;
+
   return mcpServer;
 }
 
@@ -252,18 +372,17 @@ function registerTools(mcpServer: ToolRegistry) {
       Retrieve diagnostics from VSCode's language services for the active workspace.
       Use this tool after making changes to any code in the filesystem to ensure no new
       errors were introduced, or when requested by the user.
+      Each problem includes its 1-based position, diagnostic code (with documentation URL when available),
+      tags and related information. Filter by files and sources, optionally include surrounding source lines,
+      and choose between JSON and compact text output.
+
+      Right after editing, set waitForDiagnostics so the language server can finish re-checking the files.
+      To see only the problems an edit introduced, call with createBaseline before editing and pass the
+      returned ID as sinceBaseline afterwards.
     `.trim(),
-    {
-      severityLevel: z
-        .enum(['Error', 'Warning', 'Information', 'Hint'])
-        .default('Warning')
-        .describe("Minimum severity level for checking issues: 'Error', 'Warning', 'Information', or 'Hint'."),
-    },
-    async (params: { severityLevel?: 'Error' | 'Warning' | 'Information' | 'Hint' }) => {
-      const severityLevel = params.severityLevel
-        ? DiagnosticSeverity[params.severityLevel]
-        : DiagnosticSeverity.Warning;
-      const result = codeCheckerTool(severityLevel);
+    codeCheckerSchema.shape,
+    async (params) => {
+      const result = await codeCheckerTool(params);
       return {
         ...result,
         content: result.content.map((c) => ({
@@ -275,6 +394,50 @@ function registerTools(mcpServer: ToolRegistry) {
     },
   );
 
+  // Register code actions tool
+  mcpServer.tool(
+    'code_actions',
+    dedent`
+      List and apply VSCode code actions for a line range of a file: quick fixes for the diagnostics
+      reported by code_checker, organize imports, and refactorings.
+      Call with action "list" first (use the line of a diagnostic, or omit line for the whole file), then
+      "apply" with the index or title of an action. Edits are shown as diffs and saved after a single approval,
+      and any new errors they introduce are reported.
+    `.trim(),
+    codeActionsSchema.shape,
+    async (params) => {
+      const result = await codeActionsTool(params);
+      return {
+        content: result.content.map(item => ({
+          ...item,
+          type: 'text' as const,
+        })),
+        isError: result.isError,
+      };
+    }
+  );
+
+  // Register format document tool
+  mcpServer.tool(
+    'format_document',
+    dedent`
+      Format a file, or a 1-based line range of it, with the formatter configured in VSCode
+      (e.g. Prettier, Black), using the workspace's formatter and indentation settings.
+      The formatting edits are shown as a diff and saved after approval.
+    `.trim(),
+    formatDocumentSchema.shape,
+    async (params) => {
+      const result = await formatDocumentTool(params);
+      return {
+        content: result.content.map(item => ({
+          ...item,
+          type: 'text' as const,
+        })),
+        isError: result.isError,
+      };
+    }
+  );
+
   // Register 'focus_editor' tool
   mcpServer.tool(
     'focus_editor',
@@ -366,19 +529,26 @@ function registerTools(mcpServer: ToolRegistry) {
     'text_editor',
     dedent`
       A text editor tool that provides file manipulation capabilities using VSCode's native APIs:
-      - view: Read file contents with optional line range
-      - str_replace: Replace text in file
+      - view: Read file contents with optional line range, or a single symbol by name (e.g. "MyClass.method");
+        optionally line-numbered. Large output is truncated to max_lines / max_bytes with a view_range to continue,
+        and a header with the total line count, language and encoding precedes the text, separated by a blank line.
+        The text of PDF, DOCX and Jupyter notebook files is extracted; other binary files return an error with their MIME type and size
+      - str_replace: Replace text in file; old_str must match once unless occurrence or replace_all is set, and whitespace differences are tolerated when there is no exact match
       - create: Create new file
       - insert: Insert text at specific line
-      - undo_edit: Restore from backup
+      - undo_edit: Revert a recorded edit (the latest by default, one by edit_id, or all of a session by session_id)
+      - redo_edit: Reapply an undone edit (the oldest undone by default, one by edit_id, or all of a session by session_id)
+      - list_edits: List the recorded edits with their numbers, sessions and files; the history persists per workspace
+      - multi_edit: Apply a list of old_str/new_str edits (optionally across files) in one review; nothing is applied if any edit fails
+      - apply_patch: Apply a unified diff to one or more files in one review; failing hunks are listed and nothing is applied
 
       Code Editing Tips:
       - VSCode may automatically prune unused imports when saving. To prevent this, make sure the imported type is
         actually used in your code before adding the import.
     `.trim(),
     textEditorSchema.shape,
-    async (params) => {
-      const result = await textEditorTool(params);
+    async (params, extra) => {
+      const result = await textEditorTool(params, extra.sessionId);
       return {
         content: result.content.map(item => ({
           ...item,
@@ -410,6 +580,162 @@ function registerTools(mcpServer: ToolRegistry) {
     }
   );
 
+  // Register find files tool
+  mcpServer.tool(
+    'find_files',
+    dedent`
+      Find files across all workspace folders by glob pattern (e.g. "**/*.ts").
+      Honors files.exclude, search.exclude and .gitignore by default, and returns absolute paths
+      with file sizes and modification times. Results are paginated with offset/limit.
+      Use list_directory instead to see the structure of a single directory.
+    `.trim(),
+    findFilesSchema.shape,
+    async (params) => {
+      const result = await findFilesTool(params);
+      return {
+        content: result.content.map(item => ({
+          ...item,
+          type: 'text' as const,
+        })),
+        isError: result.isError,
+      };
+    }
+  );
+
+  // Register search text tool
+  mcpServer.tool(
+    'search_text',
+    dedent`
+      Search file contents across the workspace with VSCode's bundled ripgrep, without spawning a terminal.
+      Supports literal or regex queries, case/whole-word matching, include/exclude globs, context lines,
+      and a cap on the number of results. files.exclude, search.exclude and .gitignore are honored.
+
+      With "replace", every match in every matching file is replaced. The edits are shown as diffs and
+      applied or discarded together after a single approval.
+    `.trim(),
+    searchTextSchema.shape,
+    async (params) => {
+      const result = await searchTextTool(params);
+      return {
+        content: result.content.map(item => ({
+          ...item,
+          type: 'text' as const,
+        })),
+        isError: result.isError,
+      };
+    }
+  );
+
+  // Register search symbol tool
+  mcpServer.tool(
+    'search_symbol',
+    dedent`
+      Search symbols (classes, functions, variables, ...) by name across the workspace using the
+      language servers' workspace symbol providers. Returns each symbol's kind, container,
+      location (file:line:column, 1-based) and source line, with exact matches listed first.
+      Filter by symbol kind, restrict to a path, or set exact_match to locate the definition of a known name.
+    `.trim(),
+    searchSymbolSchema.shape,
+    async (params) => {
+      const result = await searchSymbolTool(params);
+      return {
+        content: result.content.map(item => ({
+          ...item,
+          type: 'text' as const,
+        })),
+        isError: result.isError,
+      };
+    }
+  );
+
+  // Register code navigation tool
+  mcpServer.tool(
+    'code_navigation',
+    dedent`
+      Navigate code semantically with VSCode's language services: find the definition, references,
+      implementations or type definition of the symbol at a file position.
+      Give the position as a 1-based line (and optionally column), or as a symbol name in the file.
+      Each result is returned as file:line:column (1-based) with the surrounding source lines.
+    `.trim(),
+    codeNavigationSchema.shape,
+    async (params) => {
+      const result = await codeNavigationTool(params);
+      return {
+        content: result.content.map(item => ({
+          ...item,
+          type: 'text' as const,
+        })),
+        isError: result.isError,
+      };
+    }
+  );
+
+  // Register hover info tool
+  mcpServer.tool(
+    'hover_info',
+    dedent`
+      Get the type information and documentation that VSCode shows on hover for the symbol at a file position,
+      plus signature help (parameter list and active parameter) when the position is inside a call's arguments.
+      Use this instead of guessing function signatures or types; it is answered by the language servers already running.
+      Give the position as a 1-based line (and optionally column), or as a symbol name in the file.
+    `.trim(),
+    hoverInfoSchema.shape,
+    async (params) => {
+      const result = await hoverInfoTool(params);
+      return {
+        content: result.content.map(item => ({
+          ...item,
+          type: 'text' as const,
+        })),
+        isError: result.isError,
+      };
+    }
+  );
+
+  // Register document symbols tool
+  mcpServer.tool(
+    'document_symbols',
+    dedent`
+      Get the outline of a file: the hierarchical tree of symbols (classes, functions, methods, ...) with
+      their kind, detail and 1-based line range, from VSCode's language services.
+      Use it to locate a function without reading the whole file, then view just that symbol with
+      text_editor (command "view" with "symbol") or a line range.
+    `.trim(),
+    documentSymbolsSchema.shape,
+    async (params) => {
+      const result = await documentSymbolsTool(params);
+      return {
+        content: result.content.map(item => ({
+          ...item,
+          type: 'text' as const,
+        })),
+        isError: result.isError,
+      };
+    }
+  );
+
+  // Register rename symbol tool
+  mcpServer.tool(
+    'rename_symbol',
+    dedent`
+      Rename a symbol (variable, function, class, ...) across the whole workspace using the language server,
+      updating every reference and import. Prefer this over text_editor str_replace for renames.
+      Give the position as a 1-based line (and optionally column), or as the symbol's current name in the file.
+      All affected files are shown as diffs and saved together after a single approval.
+    `.trim(),
+    renameSymbolSchema.shape,
+    async (params) => {
+      const result = await renameSymbolTool(params);
+      return {
+        content: result.content.map(item => ({
+          ...item,
+          type: 'text' as const,
+        })),
+        isError: result.isError,
+      };
+    }
+  );
+
   // Register get terminal output tool
   mcpServer.tool(
     'get_terminal_output',
@@ -0,0 +1,78 @@
+export const DEFAULT_BIND_ADDRESS = '127.0.0.1';
+export const DEFAULT_ALLOWED_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export interface NetworkAccessPolicy {
+  // Host ヘッダーとして許可するホスト名 (ポートは無視)
+  // Host names accepted in the Host header (the port is ignored).
+  allowedHosts: string[];
+  // ブラウザからのリクエストで許可する Origin (例: http://localhost:3000)
+  // Origins accepted on browser requests (e.g. http://localhost:3000).
+  allowedOrigins: string[];
+}
+
+export const DEFAULT_NETWORK_ACCESS_POLICY: NetworkAccessPolicy = {
+  allowedHosts: DEFAULT_ALLOWED_HOSTS,
+  allowedOrigins: [],
+};
+
+function isWildcardAddress(address: string): boolean {
+  return address === '0.0.0.0' || address === '::' || address === '';
+}
+
+/**
+ * 待受アドレスに接続するための URL 用ホストを返す
+ * Return the URL host used to reach the server bound to the given address.
+ * ワイルドカードアドレスの場合はループバックを使い、IPv6 は角括弧で囲みます。
+ * Wildcard addresses fall back to loopback, and IPv6 literals are bracketed.
+ */
+export function toConnectHost(bindAddress: string): string {
+  if (isWildcardAddress(bindAddress)) {
+    return '127.0.0.1';
+  }
+  return bindAddress.includes(':') && !bindAddress.startsWith('[') ? `[${bindAddress}]` : bindAddress;
+}
+
+// Host ヘッダーからポートを取り除いたホスト名を返す
+// Strip the port from a Host header value.
+function hostnameOf(hostHeader: string): string {
+  const host = hostHeader.trim().toLowerCase();
+  if (host.startsWith('[')) {
+    const end = host.indexOf(']');
+    return end === -1 ? host : host.slice(0, end + 1);
+  }
+  const colon = host.indexOf(':');
+  return colon === -1 ? host : host.slice(0, colon);
+}
+
+/**
+ * Host ヘッダーが許可リストに含まれるか判定する (DNS リバインディング対策)
+ * Check whether the Host header is allowlisted, which defeats DNS rebinding.
+ * 特定のアドレスで待ち受けている場合、そのアドレス自体も許可されます。
+ * When bound to a specific address, that address is allowed as well.
+ */
+export function isAllowedHost(hostHeader: string | undefined, allowedHosts: string[], bindAddress: string): boolean {
+  if (!hostHeader) {
+    return false;
+  }
+  const hostname = hostnameOf(hostHeader);
+  const allowed = allowedHosts.map((host) => host.trim().toLowerCase());
+  if (!isWildcardAddress(bindAddress)) {
+    allowed.push(toConnectHost(bindAddress).toLowerCase());
+  }
+  return allowed.includes(hostname);
+}
+
+/**
+ * Origin ヘッダーが許可リストに含まれるか判定する
+ * Check whether the Origin header is allowlisted.
+ * Origin のないリクエスト (ブラウザ以外のクライアント) は常に許可されます。
+ * Requests without an Origin (non-browser clients) are always allowed.
+ */
+export function isAllowedOrigin(originHeader: string | undefined, allowedOrigins: string[]): boolean {
+  if (originHeader === undefined) {
+    return true;
+  }
+  const normalize = (origin: string) => origin.trim().toLowerCase().replace(/\/+$/, '');
+  const origin = normalize(originHeader);
+  return allowedOrigins.some((allowed) => normalize(allowed) === origin);
+}
@@ -0,0 +1,112 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { randomUUID } from 'node:crypto';
+import * as vscode from 'vscode';
+
+export type McpSessionKind = 'streamable-http' | 'legacy-sse' | 'socket';
+
+export interface McpSession {
+  id: string;
+  kind: McpSessionKind;
+  server: McpServer;
+  transport: Transport;
+  connectedAt: Date;
+  lastActivityAt: Date;
+}
+
+/**
+ * クライアント毎の MCP セッションを管理するレジストリ
+ * Registry that tracks one MCP server instance per connected client.
+ * 各セッションは専用の McpServer を持つため、JSON-RPC の ID が衝突しません。
+ * Every session owns its McpServer, so JSON-RPC IDs from different clients never collide.
+ */
+export class SessionRegistry {
+  private sessions = new Map<string, McpSession>();
+  private readonly _onDidChangeSessions = new vscode.EventEmitter<void>();
+  readonly onDidChangeSessions = this._onDidChangeSessions.event;
+
+  constructor(
+    private readonly outputChannel: vscode.OutputChannel,
+    private readonly createServer: () => McpServer,
+  ) { }
+
+  async connect(kind: McpSessionKind, transport: Transport): Promise<McpSession> {
+    const server = this.createServer();
+    const now = new Date();
+    const session: McpSession = {
+      id: transport.sessionId ?? randomUUID(),
+      kind,
+      server,
+      transport,
+      connectedAt: now,
+      lastActivityAt: now,
+    };
+
+    await server.connect(transport);
+
+    // connect() がハンドラを設定した後にラップして、活動時刻と切断を記録する
+    // Wrap the handlers installed by connect() to record activity and disconnection.
+    const serverOnMessage = transport.onmessage;
+    transport.onmessage = (message) => {
+      session.lastActivityAt = new Date();
+      serverOnMessage?.(message);
+    };
+    const serverOnClose = transport.onclose;
+    transport.onclose = () => {
+      serverOnClose?.();
+      this.remove(session.id);
+    };
+
+    this.sessions.set(session.id, session);
+    this.outputChannel.appendLine(`Session connected: ${session.id} (${kind}); ${this.sessions.size} active session(s)`);
+    this._onDidChangeSessions.fire();
+    return session;
+  }
+
+  list(): McpSession[] {
+    return [...this.sessions.values()];
+  }
+
+  get(id: string): McpSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  describe(session: McpSession): string {
+    const clientInfo = session.server.server.getClientVersion();
+    return clientInfo ? `${clientInfo.name} ${clientInfo.version}` : 'unknown client';
+  }
+
+  async disconnect(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+
+    this.outputChannel.appendLine(`Disconnecting session ${id} (${this.describe(session)})`);
+    try {
+      await session.transport.close();
+    } catch (err) {
+      this.outputChannel.appendLine(`Error while closing session ${id}: ${err}`);
+    }
+    // close() が onclose を呼ばないトランスポートにも対応する
+    // Also handle transports whose close() does not invoke onclose.
+    this.remove(id);
+    return true;
+  }
+
+  async disconnectAll(): Promise<void> {
+    await Promise.all(this.list().map((session) => this.disconnect(session.id)));
+  }
+
+  dispose(): void {
+    this._onDidChangeSessions.dispose();
+  }
+
+  private remove(id: string): void {
+    if (!this.sessions.delete(id)) {
+      return;
+    }
+    this.outputChannel.appendLine(`Session disconnected: ${id}; ${this.sessions.size} active session(s)`);
+    this._onDidChangeSessions.fire();
+  }
+}
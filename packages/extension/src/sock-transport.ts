@@ -1,57 +1,107 @@
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
-import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
-import * as net from 'net';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as net from 'node:net';
+import * as path from 'node:path';
 import * as vscode from 'vscode';
+import { AUTH_TOKEN_FILE, isAuthorized } from './auth-token';
 
-export class SockTransport implements Transport {
-    server?: net.Server;
+// 認証の 1 行目を待つ最大時間
+// Maximum time to wait for the authentication line.
+const SOCKET_AUTH_TIMEOUT_MS = 10000;
+
+/**
+ * 設定値からソケットの待受先を決定する
+ * Resolve the listen target from the configured socket path.
+ * 空の場合は UNIX ドメインソケット (Windows では名前付きパイプ) の既定パスを使い、
+ * An empty value falls back to the default UNIX domain socket (named pipe on Windows);
+ * 既定のソケットは共有の一時ディレクトリではなく、所有者のみがアクセスできるトークンファイルと同じディレクトリに置きます。
+ * the default socket lives next to the auth token file in an owner-only directory rather than the shared temporary directory.
+ * 数字のみの場合は 127.0.0.1 上の TCP ポートとして扱います。
+ * a purely numeric value is treated as a TCP port on 127.0.0.1.
+ */
+export function resolveSocketListenTarget(configured: string | undefined): string | number {
+    const value = configured?.trim() ?? '';
+    if (/^\d+$/.test(value)) {
+        return Number(value);
+    }
+    if (value) {
+        return value;
+    }
+    return process.platform === 'win32'
+        ? '\\\\.\\pipe\\vscode-as-mcp-server'
+        : path.join(path.dirname(AUTH_TOKEN_FILE), 'mcp.sock');
+}
+
+/**
+ * 1 接続分の改行区切り JSON-RPC トランスポート
+ * Newline-delimited JSON-RPC transport for a single socket connection.
+ */
+export class SocketConnectionTransport implements Transport {
     onclose?: () => void;
     onerror?: (error: Error) => void;
     onmessage?: (message: JSONRPCMessage) => void;
-    conn?: net.Socket;
+    readonly sessionId = randomUUID();
+    private closed = false;
 
     constructor(
-        readonly port: number,
-        private readonly outputChannel: vscode.OutputChannel
+        private readonly conn: net.Socket,
+        private readonly outputChannel: vscode.OutputChannel,
+        // 認証の行の後に受信済みのデータ
+        // Data already received after the authentication line.
+        private buffer = ''
     ) { }
 
-    start() {
-        this.server = net.createServer((conn) => {
-            conn.on('data', async (data) => {
-                this.outputChannel.appendLine('Received data: ' + data);
-                try {
-                    this.onmessage!(JSON.parse(data.toString('utf8')));
-                } catch (err) {
-                    this.outputChannel.appendLine('Error parsing JSON or calling onmessage: ' + err);
-                }
-            });
-            conn.on('error', (err) => {
-                this.outputChannel.appendLine('Socket error: ' + err);
-                this.onerror?.(err);
-            });
-            conn.on('close', () => {
-                this.outputChannel.appendLine('Socket closed.');
-                this.onclose?.();
-            });
-            this.conn = conn;
+    async start() {
+        this.conn.setEncoding('utf8');
+        this.conn.on('data', (chunk: string) => {
+            this.buffer += chunk;
+            this.processBuffer();
         });
-
-        return new Promise<void>((resolve) => {
-            this.server!.listen(this.port, () => {
-                this.outputChannel.appendLine(`MCP Server running at :${this.port}`);
-                resolve();
-            });
+        this.conn.on('error', (err) => {
+            this.outputChannel.appendLine(`Socket error (${this.sessionId}): ${err}`);
+            this.onerror?.(err);
+        });
+        this.conn.on('close', () => {
+            this.handleClosed();
         });
+        // 認証の間は一時停止しているため再開する
+        // Resume the stream, which is paused while authenticating.
+        this.conn.resume();
+        this.processBuffer();
+    }
+
+    // 受信バッファから完結した行だけを取り出して処理する (分割・結合されたフレームに対応)
+    // Consume only complete lines from the buffer, handling partial and coalesced frames.
+    private processBuffer() {
+        let newlineIndex: number;
+        while ((newlineIndex = this.buffer.indexOf('\n')) !== -1) {
+            const line = this.buffer.slice(0, newlineIndex).replace(/\r$/, '');
+            this.buffer = this.buffer.slice(newlineIndex + 1);
+            if (!line.trim()) {
+                continue;
+            }
+
+            let message: JSONRPCMessage;
+            try {
+                message = JSONRPCMessageSchema.parse(JSON.parse(line));
+            } catch (err) {
+                this.outputChannel.appendLine(`Error parsing JSON-RPC message (${this.sessionId}): ${err}`);
+                this.onerror?.(err instanceof Error ? err : new Error(String(err)));
+                continue;
+            }
+            this.onmessage?.(message);
+        }
     }
 
     async send(message: JSONRPCMessage) {
-        this.outputChannel.appendLine('Sending message: ' + JSON.stringify(message));
-        if (!this.conn) {
-            this.outputChannel.appendLine('No connection to send message.');
+        if (this.closed) {
+            this.outputChannel.appendLine(`Connection ${this.sessionId} is closed; dropping message.`);
             return;
         }
         return new Promise<void>((resolve, reject) => {
-            this.conn!.write(JSON.stringify(message) + '\n', (err) => {
+            this.conn.write(JSON.stringify(message) + '\n', (err) => {
                 if (err) {
                     reject(err);
                 } else {
@@ -61,11 +111,218 @@ export class SockTransport implements Transport {
         });
     }
 
-    close(): Promise<void> {
-        return new Promise<void>((resolve) => {
-            this.server?.close(() => {
+    async close() {
+        this.conn.end();
+        this.handleClosed();
+    }
+
+    private handleClosed() {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.outputChannel.appendLine(`Socket connection closed: ${this.sessionId}`);
+        this.onclose?.();
+    }
+}
+
+/**
+ * UNIX ドメインソケット / 名前付きパイプ / TCP で待ち受け、接続毎にトランスポートを生成する
+ * Listens on a UNIX domain socket, named pipe, or TCP port and creates a transport per connection.
+ * 認証が有効な場合、各接続の 1 行目は {"authorization": "Bearer <token>"} でなければなりません。
+ * When authentication is enabled, the first line of every connection must be {"authorization": "Bearer <token>"}.
+ */
+export class SockTransport {
+    server?: net.Server;
+    // 接続毎に呼ばれ、セッション用の MCP サーバーを接続する
+    // Called for every connection so a per-session MCP server can be connected.
+    onSessionCreated?: (session: SocketConnectionTransport) => Promise<void>;
+    private connections = new Set<SocketConnectionTransport>();
+    // 認証待ちの接続
+    // Connections that have not authenticated yet.
+    private pendingSockets = new Set<net.Socket>();
+
+    constructor(
+        readonly listenTarget: string | number,
+        private readonly outputChannel: vscode.OutputChannel,
+        // 現在の認証トークンを返す (undefined の場合は認証なし、null の場合は認証が必要なのにトークンがないため拒否)
+        // Returns the current auth token: undefined disables authentication, null rejects everything because a token is required but missing.
+        private readonly getAuthToken: () => string | null | undefined = () => undefined
+    ) { }
+
+    async start() {
+        const isUnixSocket = typeof this.listenTarget === 'string' && process.platform !== 'win32';
+        if (isUnixSocket) {
+            await fs.mkdir(path.dirname(this.listenTarget as string), { recursive: true, mode: 0o700 });
+            await this.removeStaleSocket(this.listenTarget as string);
+        }
+
+        this.server = net.createServer((conn) => {
+            void (async () => {
+                const remaining = await this.authenticate(conn);
+                if (remaining === undefined) {
+                    return;
+                }
+
+                const connection = new SocketConnectionTransport(conn, this.outputChannel, remaining);
+                this.connections.add(connection);
+                this.outputChannel.appendLine(`Socket connection accepted: ${connection.sessionId}`);
+                try {
+                    if (this.onSessionCreated) {
+                        await this.onSessionCreated(connection);
+                    } else {
+                        await connection.start();
+                    }
+                    const serverOnClose = connection.onclose;
+                    connection.onclose = () => {
+                        this.connections.delete(connection);
+                        serverOnClose?.();
+                    };
+                } catch (err) {
+                    this.outputChannel.appendLine(`Failed to set up socket session: ${err}`);
+                    conn.destroy();
+                    this.connections.delete(connection);
+                }
+            })();
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            const server = this.server!;
+            server.once('error', reject);
+            const onListening = () => {
+                server.off('error', reject);
+                this.outputChannel.appendLine(`MCP Server socket listening at ${this.listenTarget}`);
+                resolve();
+            };
+            if (typeof this.listenTarget === 'number') {
+                server.listen(this.listenTarget, '127.0.0.1', onListening);
+            } else if (isUnixSocket) {
+                // ソケットファイルは作成時点から所有者のみ読み書き可能にする (listen はソケットを同期的に作成する)
+                // Make the socket file owner-only from the moment it is created; listen creates it synchronously.
+                const previousUmask = process.umask(0o177);
+                try {
+                    server.listen(this.listenTarget, onListening);
+                } finally {
+                    process.umask(previousUmask);
+                }
+            } else {
+                server.listen(this.listenTarget, onListening);
+            }
+        });
+    }
+
+    async close(): Promise<void> {
+        for (const socket of this.pendingSockets) {
+            socket.destroy();
+        }
+        this.pendingSockets.clear();
+        await Promise.all([...this.connections].map((connection) => connection.close()));
+        this.connections.clear();
+
+        await new Promise<void>((resolve) => {
+            if (!this.server) {
+                resolve();
+                return;
+            }
+            this.server.close(() => {
                 resolve();
             });
         });
+        this.server = undefined;
+        this.outputChannel.appendLine('MCP Server socket closed.');
+    }
+
+    // 認証が有効なら 1 行目のトークンを検証し、その後に受信済みのデータを返す。拒否した場合は接続を閉じて undefined
+    // When authentication is enabled, check the token on the first line and return the data received after it;
+    // on rejection the connection is closed and undefined is returned.
+    private async authenticate(conn: net.Socket): Promise<string | undefined> {
+        const token = this.getAuthToken();
+        if (token === undefined) {
+            return '';
+        }
+
+        conn.setEncoding('utf8');
+        this.pendingSockets.add(conn);
+        const handshake = await new Promise<{ line: string; remaining: string } | undefined>((resolve) => {
+            let buffer = '';
+            const finish = (result: { line: string; remaining: string } | undefined) => {
+                clearTimeout(timer);
+                this.pendingSockets.delete(conn);
+                conn.off('data', onData);
+                conn.off('close', onClose);
+                conn.off('error', onClose);
+                conn.pause();
+                resolve(result);
+            };
+            const onData = (chunk: string) => {
+                buffer += chunk;
+                const newlineIndex = buffer.indexOf('\n');
+                if (newlineIndex !== -1) {
+                    finish({ line: buffer.slice(0, newlineIndex).replace(/\r$/, ''), remaining: buffer.slice(newlineIndex + 1) });
+                }
+            };
+            const onClose = () => finish(undefined);
+            const timer = setTimeout(() => finish(undefined), SOCKET_AUTH_TIMEOUT_MS);
+            conn.on('data', onData);
+            conn.on('close', onClose);
+            conn.on('error', onClose);
+        });
+
+        if (!handshake) {
+            // 1 行目を送る前に閉じられたか、時間切れ
+            // Closed before sending the first line, or timed out.
+            conn.destroy();
+            return undefined;
+        }
+
+        if (token === null) {
+            // 認証が必要なのにトークンを読み込めなかった場合は、1 行目を読んだ上ですべて拒否する
+            // Authentication is required but the token could not be loaded: read the first line, then reject.
+            this.outputChannel.appendLine('Rejected socket connection because the auth token is unavailable');
+            const error = { jsonrpc: '2.0', id: null, error: { code: -32001, message: 'Unauthorized: the auth token could not be loaded' } };
+            conn.end(JSON.stringify(error) + '\n');
+            return undefined;
+        }
+
+        let authorization: unknown;
+        try {
+            authorization = JSON.parse(handshake.line).authorization;
+        } catch {
+            // 不正な JSON は認証失敗として扱う
+            // Invalid JSON is treated as a failed authentication.
+        }
+        if (typeof authorization === 'string' && isAuthorized(authorization, token)) {
+            return handshake.remaining;
+        }
+
+        this.outputChannel.appendLine(`Rejected unauthenticated socket connection${conn.remoteAddress ? ` from ${conn.remoteAddress}` : ''}`);
+        const error = { jsonrpc: '2.0', id: null, error: { code: -32001, message: 'Unauthorized: send {"authorization": "Bearer <token>"} as the first line' } };
+        conn.end(JSON.stringify(error) + '\n');
+        return undefined;
+    }
+
+    // 以前のプロセスが残したソケットファイルを削除する (使用中の場合はエラー)
+    // Remove a socket file left behind by a previous process; fail if it is still in use.
+    private async removeStaleSocket(socketPath: string) {
+        try {
+            await fs.access(socketPath);
+        } catch {
+            return;
+        }
+
+        const inUse = await new Promise<boolean>((resolve) => {
+            const probe = net.connect(socketPath);
+            probe.once('connect', () => {
+                probe.destroy();
+                resolve(true);
+            });
+            probe.once('error', () => resolve(false));
+        });
+        if (inUse) {
+            throw new Error(`Socket ${socketPath} is already in use by another MCP Server`);
+        }
+
+        this.outputChannel.appendLine(`Removing stale socket file: ${socketPath}`);
+        await fs.unlink(socketPath);
     }
 }
@@ -1,43 +1,65 @@
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
-import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
 import express from 'express';
+import { randomUUID } from 'node:crypto';
 import * as vscode from 'vscode';
 
+// プロキシやクライアントに接続を切られないよう、定期的にコメント行を送る間隔
+// Interval for comment lines that keep proxies and clients from dropping the idle stream.
+export const KEEPALIVE_INTERVAL_MS = 15000;
+
+/**
+ * 旧仕様 (2024-11-05) の HTTP+SSE トランスポート
+ * Legacy HTTP+SSE transport from the 2024-11-05 spec.
+ * GET /sse でストリームを開き、`endpoint` イベントで通知した URL に POST されたメッセージを受け取ります。
+ * The stream is opened with GET /sse, and messages are POSTed to the URL announced in the `endpoint` event.
+ */
 export class SSEServerTransport implements Transport {
     onclose?: () => void;
     onerror?: (error: Error) => void;
     onmessage?: (message: JSONRPCMessage) => void;
+    readonly sessionId = randomUUID();
+    private keepaliveTimer?: NodeJS.Timeout;
+    private closed = false;
 
     constructor(
+        private readonly endpoint: string,
         private readonly res: express.Response,
         private readonly outputChannel: vscode.OutputChannel
-    ) {
-        this.setupSSE();
-    }
+    ) { }
 
-    private setupSSE() {
+    async start() {
         this.res.writeHead(200, {
             'Content-Type': 'text/event-stream',
             'Cache-Control': 'no-cache',
             'Connection': 'keep-alive',
         });
 
+        // クライアントにメッセージ送信先を通知
+        // Tell the client where to POST its messages.
+        this.res.write(`event: endpoint\ndata: ${encodeURI(this.endpoint)}?sessionId=${this.sessionId}\n\n`);
+
+        this.keepaliveTimer = setInterval(() => {
+            this.res.write(': keepalive\n\n');
+        }, KEEPALIVE_INTERVAL_MS);
+
         // Handle client disconnection
         this.res.on('close', () => {
-            this.outputChannel.appendLine('SSE connection closed by client');
-            this.onclose?.();
+            this.outputChannel.appendLine(`SSE connection closed by client (${this.sessionId})`);
+            this.handleClosed();
         });
-    }
 
-    async start() {
-        // SSE connection is established in constructor
-        this.outputChannel.appendLine('SSE transport started');
+        this.outputChannel.appendLine(`SSE transport started (${this.sessionId})`);
     }
 
     async send(message: JSONRPCMessage) {
+        if (this.closed) {
+            this.outputChannel.appendLine(`SSE session ${this.sessionId} is closed; dropping message.`);
+            return;
+        }
         try {
             this.outputChannel.appendLine('Sending message: ' + JSON.stringify(message));
-            this.res.write(`data: ${JSON.stringify(message)}\n\n`);
+            this.res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
         } catch (err) {
             this.outputChannel.appendLine('Error sending message: ' + err);
             this.onerror?.(err instanceof Error ? err : new Error(String(err)));
@@ -45,14 +67,26 @@ export class SSEServerTransport implements Transport {
         }
     }
 
-    async handlePostMessage(_req: express.Request, res: express.Response, body: any) {
+    async handlePostMessage(_req: express.Request, res: express.Response, body: unknown) {
         this.outputChannel.appendLine('Handling POST message: ' + JSON.stringify(body));
+        if (this.closed) {
+            res.status(410).send('SSE session closed');
+            return;
+        }
+
+        const parsed = JSONRPCMessageSchema.safeParse(body);
+        if (!parsed.success) {
+            this.outputChannel.appendLine('Invalid JSON-RPC message: ' + parsed.error.message);
+            res.status(400).send(`Invalid message: ${parsed.error.message}`);
+            return;
+        }
+
         try {
             if (!this.onmessage) {
                 throw new Error('No message handler registered');
             }
-            this.onmessage(body);
-            res.send('OK');
+            this.onmessage(parsed.data);
+            res.status(202).send('Accepted');
         } catch (err) {
             this.outputChannel.appendLine('Error handling message: ' + err);
             this.onerror?.(err instanceof Error ? err : new Error(String(err)));
@@ -60,15 +94,23 @@ export class SSEServerTransport implements Transport {
         }
     }
 
-    close(): Promise<void> {
+    async close() {
         try {
             // End the SSE stream
             this.res.end();
-            this.outputChannel.appendLine('SSE transport closed');
-            return Promise.resolve();
+            this.outputChannel.appendLine(`SSE transport closed (${this.sessionId})`);
         } catch (err) {
             this.outputChannel.appendLine('Error closing SSE transport: ' + err);
-            return Promise.reject(err);
         }
+        this.handleClosed();
+    }
+
+    private handleClosed() {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        clearInterval(this.keepaliveTimer);
+        this.onclose?.();
     }
 }
@@ -0,0 +1,317 @@
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ErrorCode,
+  InitializeRequestSchema,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  JSONRPCRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import express from 'express';
+import { randomUUID } from 'node:crypto';
+import * as vscode from 'vscode';
+
+export const MCP_SESSION_ID_HEADER = 'mcp-session-id';
+
+// GET で開かれる、リクエストに紐付かないストリームの ID
+// Stream ID used for the standalone GET stream that is not tied to a request.
+const STANDALONE_STREAM_ID = '_GET_stream';
+
+// 再開 (Last-Event-ID) のために保持するイベント数の上限
+// Maximum number of events kept in memory for resumption via Last-Event-ID.
+const MAX_STORED_EVENTS = 1000;
+
+interface StoredEvent {
+  eventId: string;
+  streamId: string;
+  message: JSONRPCMessage;
+}
+
+interface JsonResponseStream {
+  res: express.Response;
+  isBatch: boolean;
+  responses: JSONRPCMessage[];
+}
+
+export function isInitializeRequest(message: unknown): boolean {
+  return InitializeRequestSchema.safeParse(message).success && JSONRPCRequestSchema.safeParse(message).success;
+}
+
+export function sendJsonRpcError(res: express.Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+/**
+ * Streamable HTTP トランスポート (MCP 2025-03-26) の 1 セッション分の実装
+ * Server-side transport for a single Streamable HTTP session (MCP 2025-03-26).
+ * POST で受け取ったリクエストへの応答は SSE ストリームまたは JSON で返し、
+ * Responses to POSTed requests are returned over an SSE stream or as JSON, while
+ * サーバー起点のメッセージは GET で開かれたストリームに送信します。
+ * server-initiated messages go to the stream opened with GET.
+ */
+export class StreamableHttpServerTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+  readonly sessionId = randomUUID();
+
+  private sseStreams = new Map<string, express.Response>();
+  private jsonStreams = new Map<string, JsonResponseStream>();
+  private requestToStream = new Map<string | number, string>();
+  private events: StoredEvent[] = [];
+  private eventCounter = 0;
+  private initialized = false;
+  private closed = false;
+
+  constructor(private readonly outputChannel: vscode.OutputChannel) { }
+
+  async start(): Promise<void> {
+    // Streams are opened per HTTP request in handleRequest.
+  }
+
+  async handleRequest(req: express.Request, res: express.Response): Promise<void> {
+    switch (req.method) {
+      case 'POST':
+        return this.handlePost(req, res);
+      case 'GET':
+        return this.handleGet(req, res);
+      case 'DELETE':
+        await this.close();
+        res.status(200).end();
+        return;
+      default:
+        res.setHeader('Allow', 'GET, POST, DELETE');
+        sendJsonRpcError(res, 405, ErrorCode.ConnectionClosed, 'Method not allowed.');
+    }
+  }
+
+  private async handlePost(req: express.Request, res: express.Response): Promise<void> {
+    const accept = req.header('accept') ?? '';
+    const acceptsSse = accept.includes('text/event-stream');
+    if (!acceptsSse && !accept.includes('application/json') && !accept.includes('*/*')) {
+      sendJsonRpcError(res, 406, ErrorCode.ConnectionClosed, 'Not Acceptable: Client must accept application/json or text/event-stream');
+      return;
+    }
+
+    const isBatch = Array.isArray(req.body);
+    const rawMessages: unknown[] = isBatch ? req.body : [req.body];
+    const messages: JSONRPCMessage[] = [];
+    for (const raw of rawMessages) {
+      const parsed = JSONRPCMessageSchema.safeParse(raw);
+      if (!parsed.success) {
+        sendJsonRpcError(res, 400, ErrorCode.ParseError, `Parse error: ${parsed.error.message}`);
+        return;
+      }
+      messages.push(parsed.data);
+    }
+
+    if (messages.some(isInitializeRequest)) {
+      if (this.initialized) {
+        sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, 'Invalid Request: Server already initialized');
+        return;
+      }
+      if (messages.length > 1) {
+        sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, 'Invalid Request: Only one initialization request is allowed');
+        return;
+      }
+      this.initialized = true;
+    }
+
+    res.setHeader('Mcp-Session-Id', this.sessionId);
+
+    const requestIds = messages
+      .filter((message) => 'method' in message && 'id' in message)
+      .map((message) => (message as { id: string | number }).id);
+
+    if (requestIds.length === 0) {
+      // 通知とレスポンスのみの場合は 202 を返す
+      // Only notifications or responses: acknowledge with 202.
+      res.status(202).end();
+      for (const message of messages) {
+        this.onmessage?.(message);
+      }
+      return;
+    }
+
+    const streamId = randomUUID();
+    for (const id of requestIds) {
+      this.requestToStream.set(id, streamId);
+    }
+
+    if (acceptsSse) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      });
+      res.flushHeaders();
+      this.attachSseStream(streamId, res);
+    } else {
+      this.jsonStreams.set(streamId, { res, isBatch, responses: [] });
+      res.on('close', () => {
+        this.jsonStreams.delete(streamId);
+      });
+    }
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  private async handleGet(req: express.Request, res: express.Response): Promise<void> {
+    const accept = req.header('accept') ?? '';
+    if (!accept.includes('text/event-stream')) {
+      sendJsonRpcError(res, 406, ErrorCode.ConnectionClosed, 'Not Acceptable: Client must accept text/event-stream');
+      return;
+    }
+
+    const lastEventId = req.header('last-event-id');
+    const resumed = lastEventId ? this.events.find((event) => event.eventId === lastEventId) : undefined;
+    const streamId = resumed?.streamId ?? STANDALONE_STREAM_ID;
+
+    if (this.sseStreams.has(streamId)) {
+      sendJsonRpcError(res, 409, ErrorCode.InvalidRequest, 'Conflict: Only one SSE stream is allowed per session');
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Mcp-Session-Id': this.sessionId,
+    });
+    res.flushHeaders();
+
+    if (resumed) {
+      // 指定されたイベント以降の同じストリームのイベントを再送
+      // Replay the events of the same stream that came after the given event.
+      const startIndex = this.events.indexOf(resumed) + 1;
+      const replay = this.events.slice(startIndex).filter((event) => event.streamId === streamId);
+      this.outputChannel.appendLine(`Resuming stream ${streamId} for session ${this.sessionId}; replaying ${replay.length} event(s)`);
+      for (const event of replay) {
+        this.writeEvent(res, event);
+      }
+
+      if (streamId !== STANDALONE_STREAM_ID && !this.hasPendingRequests(streamId)) {
+        res.end();
+        return;
+      }
+    }
+
+    this.attachSseStream(streamId, res);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      this.outputChannel.appendLine(`Session ${this.sessionId} is closed; dropping message: ${JSON.stringify(message)}`);
+      return;
+    }
+
+    if ('id' in message && ('result' in message || 'error' in message)) {
+      const streamId = this.requestToStream.get(message.id);
+      if (!streamId) {
+        this.outputChannel.appendLine(`No pending stream for response ID: ${message.id}`);
+        return;
+      }
+      this.requestToStream.delete(message.id);
+
+      const jsonStream = this.jsonStreams.get(streamId);
+      if (jsonStream) {
+        jsonStream.responses.push(message);
+        if (!this.hasPendingRequests(streamId)) {
+          this.jsonStreams.delete(streamId);
+          jsonStream.res.json(jsonStream.isBatch ? jsonStream.responses : jsonStream.responses[0]);
+        }
+        return;
+      }
+
+      this.storeAndWrite(streamId, message);
+      if (!this.hasPendingRequests(streamId)) {
+        this.sseStreams.get(streamId)?.end();
+        this.sseStreams.delete(streamId);
+      }
+      return;
+    }
+
+    // サーバー起点のリクエスト・通知は GET ストリームを優先し、無ければ開いている POST ストリームへ送る
+    // Server-initiated requests and notifications prefer the GET stream and fall back to an open POST stream.
+    let streamId = STANDALONE_STREAM_ID;
+    if (!this.sseStreams.has(STANDALONE_STREAM_ID)) {
+      const openStreams = [...this.sseStreams.keys()];
+      if (openStreams.length > 0) {
+        streamId = openStreams[openStreams.length - 1];
+      }
+    }
+    this.storeAndWrite(streamId, message);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    for (const res of this.sseStreams.values()) {
+      res.end();
+    }
+    for (const { res } of this.jsonStreams.values()) {
+      sendJsonRpcError(res, 503, ErrorCode.ConnectionClosed, 'Session closed');
+    }
+    this.sseStreams.clear();
+    this.jsonStreams.clear();
+    this.requestToStream.clear();
+    this.events = [];
+
+    this.outputChannel.appendLine(`Streamable HTTP session ${this.sessionId} closed`);
+    this.onclose?.();
+  }
+
+  private attachSseStream(streamId: string, res: express.Response): void {
+    this.sseStreams.set(streamId, res);
+    res.on('close', () => {
+      if (this.sseStreams.get(streamId) === res) {
+        this.sseStreams.delete(streamId);
+      }
+    });
+  }
+
+  private hasPendingRequests(streamId: string): boolean {
+    for (const pendingStreamId of this.requestToStream.values()) {
+      if (pendingStreamId === streamId) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private storeAndWrite(streamId: string, message: JSONRPCMessage): void {
+    const event: StoredEvent = {
+      eventId: `${streamId}_${++this.eventCounter}`,
+      streamId,
+      message,
+    };
+    this.events.push(event);
+    if (this.events.length > MAX_STORED_EVENTS) {
+      this.events.shift();
+    }
+
+    const res = this.sseStreams.get(streamId);
+    if (!res) {
+      this.outputChannel.appendLine(`No open stream for session ${this.sessionId}; stored event ${event.eventId} for resumption`);
+      return;
+    }
+    this.writeEvent(res, event);
+  }
+
+  private writeEvent(res: express.Response, event: StoredEvent): void {
+    try {
+      res.write(`id: ${event.eventId}\nevent: message\ndata: ${JSON.stringify(event.message)}\n\n`);
+    } catch (err) {
+      this.outputChannel.appendLine('Error writing SSE event: ' + err);
+      this.onerror?.(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+}
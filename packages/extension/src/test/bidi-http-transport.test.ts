@@ -1,3 +1,4 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
 import * as assert from 'assert';
 import express from 'express';
@@ -174,8 +175,10 @@ suite('BidiHttpTransport Test Suite', function () {
     });
 
     transport.onmessage = async (message) => {
-      assert.deepStrictEqual(message, requestMessage);
-      await transport.send(expectedResponse);
+      // ID はクライアント間で衝突しないよう内部 ID に置き換えられる
+      // The ID is replaced with an internal one so clients never collide.
+      assert.strictEqual((message as { method: string }).method, 'test.method');
+      await transport.send({ ...expectedResponse, id: (message as { id: string | number }).id });
     };
 
     const response = await responsePromise;
@@ -188,6 +191,27 @@ suite('BidiHttpTransport Test Suite', function () {
     (transport as unknown as { restartDelayMs: number }).restartDelayMs = 1000;
   });
 
+  test('concurrent requests with the same ID should each receive their own response', async function () {
+    await transport.start();
+
+    transport.onmessage = (message) => {
+      const { id, params } = message as unknown as { id: string | number; params: { client: string } };
+      setTimeout(() => {
+        void transport.send({ jsonrpc: '2.0', id, result: { client: params.client } });
+      }, params.client === 'a' ? 50 : 0);
+    };
+
+    const post = (client: string) => fetch(`http://localhost:${testPort}/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'test.method', params: { client } }),
+    }).then((response) => response.json() as Promise<{ id: number; result: { client: string } }>);
+
+    const [first, second] = await Promise.all([post('a'), post('b')]);
+    assert.deepStrictEqual(first, { jsonrpc: '2.0', id: 1, result: { client: 'a' } });
+    assert.deepStrictEqual(second, { jsonrpc: '2.0', id: 1, result: { client: 'b' } });
+  });
+
   test('send should log when no pending response is available', async function () {
     await transport.start();
 
@@ -200,4 +224,276 @@ suite('BidiHttpTransport Test Suite', function () {
     await transport.send(message);
     assert.ok(outputChannel.logs.some(log => log.includes('No pending response for ID: 1')));
   });
+
+  test('server-initiated notifications should be broadcast to /events subscribers', async function () {
+    await transport.start();
+
+    const stream = await fetch(`http://localhost:${testPort}/events`, { headers: { 'Accept': 'text/event-stream' } });
+    assert.strictEqual(stream.status, 200);
+    const reader = stream.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    while (!received.includes(': connected')) {
+      received += decoder.decode((await reader.read()).value);
+    }
+
+    await transport.send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    while (!/event: message\ndata: .+\n/.test(received)) {
+      received += decoder.decode((await reader.read()).value);
+    }
+    const data = /event: message\ndata: (.+)\n/.exec(received)![1];
+    assert.deepStrictEqual(JSON.parse(data), { jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+
+    await transport.close();
+    assert.ok((await reader.read()).done, 'Expected the event stream to end on close');
+  });
+
+  suite('Streamable HTTP endpoint', function () {
+    const initializeRequest = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2024-11-05',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '0.0.0' },
+      },
+    };
+
+    setup(function () {
+      transport.onSessionCreated = async (session) => {
+        const sessionServer = new McpServer({ name: 'streamable-test', version: '0.0.0' });
+        await sessionServer.connect(session);
+      };
+    });
+
+    test('initialize should create a session and answer with JSON', async function () {
+      await transport.start();
+
+      const response = await fetch(`http://localhost:${testPort}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify(initializeRequest),
+      });
+
+      assert.strictEqual(response.status, 200);
+      assert.ok(response.headers.get('mcp-session-id'), 'Expected a session ID header');
+
+      const body = await response.json() as { id: number; result: { serverInfo: { name: string } } };
+      assert.strictEqual(body.id, 1);
+      assert.strictEqual(body.result.serverInfo.name, 'streamable-test');
+    });
+
+    test('initialize should stream the response when the client accepts SSE', async function () {
+      await transport.start();
+
+      const response = await fetch(`http://localhost:${testPort}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+        body: JSON.stringify(initializeRequest),
+      });
+
+      assert.strictEqual(response.status, 200);
+      assert.match(response.headers.get('content-type') ?? '', /text\/event-stream/);
+
+      const text = await response.text();
+      assert.match(text, /event: message/);
+      assert.match(text, /"serverInfo"/);
+    });
+
+    test('requests without a session ID should be rejected', async function () {
+      await transport.start();
+
+      const response = await fetch(`http://localhost:${testPort}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+      });
+
+      assert.strictEqual(response.status, 400);
+    });
+
+    test('requests with an unknown session ID should return 404', async function () {
+      await transport.start();
+
+      const response = await fetch(`http://localhost:${testPort}/mcp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Mcp-Session-Id': 'unknown-session',
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+      });
+
+      assert.strictEqual(response.status, 404);
+    });
+  });
+
+  suite('Authentication', function () {
+    const token = 'test-token';
+
+    setup(async function () {
+      await transport.close();
+      transport = new BidiHttpTransport(testPort, outputChannel as unknown as vscode.OutputChannel, () => token);
+      transport.onmessage = mockOnMessage;
+    });
+
+    test('should reject requests without a valid bearer token', async function () {
+      await transport.start();
+
+      const body = JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' });
+      const missing = await fetch(`http://localhost:${testPort}/`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      });
+      assert.strictEqual(missing.status, 401);
+      assert.strictEqual(missing.headers.get('www-authenticate'), 'Bearer');
+
+      const wrong = await fetch(`http://localhost:${testPort}/`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer wrong-token' },
+        body,
+      });
+      assert.strictEqual(wrong.status, 401);
+      assert.ok(mockOnMessage.notCalled);
+    });
+
+    test('should accept requests with the bearer token and leave /ping open', async function () {
+      await transport.start();
+
+      const response = await fetch(`http://localhost:${testPort}/`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+      });
+      assert.notStrictEqual(response.status, 401);
+      assert.ok(mockOnMessage.calledOnce);
+
+      const ping = await fetch(`http://localhost:${testPort}/ping`);
+      assert.strictEqual(ping.status, 200);
+    });
+
+    test('should reject every request when authentication is required but the token is missing', async function () {
+      await transport.close();
+      transport = new BidiHttpTransport(testPort, outputChannel as unknown as vscode.OutputChannel, () => null);
+      transport.onmessage = mockOnMessage;
+      await transport.start();
+
+      const response = await fetch(`http://localhost:${testPort}/`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer anything' },
+        body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+      });
+      assert.strictEqual(response.status, 503);
+      assert.ok(mockOnMessage.notCalled);
+    });
+  });
+
+  suite('Host and Origin validation', function () {
+    // fetch は Host ヘッダーを上書きできないため http.request を使う
+    // Use http.request, since fetch does not allow overriding the Host header.
+    function requestWithHeaders(headers: http.OutgoingHttpHeaders): Promise<number> {
+      return new Promise((resolve, reject) => {
+        const req = http.request({ host: '127.0.0.1', port: testPort, path: '/ping', headers }, (res) => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        });
+        req.once('error', reject);
+        req.end();
+      });
+    }
+
+    test('should reject requests with a disallowed Host header', async function () {
+      await transport.start();
+
+      assert.strictEqual(await requestWithHeaders({ host: `localhost:${testPort}` }), 200);
+      assert.strictEqual(await requestWithHeaders({ host: `evil.example.com:${testPort}` }), 403);
+      assert.ok(outputChannel.logs.some((line) => line.includes('disallowed Host header: evil.example.com')));
+    });
+
+    test('should reject browser requests from origins that are not allowlisted', async function () {
+      await transport.close();
+      transport = new BidiHttpTransport(testPort, outputChannel as unknown as vscode.OutputChannel, undefined, '127.0.0.1', () => ({
+        allowedHosts: ['localhost'],
+        allowedOrigins: ['http://localhost:3000'],
+      }));
+      await transport.start();
+
+      assert.strictEqual(await requestWithHeaders({ host: `localhost:${testPort}` }), 200);
+      assert.strictEqual(await requestWithHeaders({ host: `localhost:${testPort}`, origin: 'http://localhost:3000' }), 200);
+      assert.strictEqual(await requestWithHeaders({ host: `localhost:${testPort}`, origin: 'https://evil.example.com' }), 403);
+    });
+  });
+
+  suite('Legacy SSE endpoint', function () {
+    setup(function () {
+      transport.onSessionCreated = async (session) => {
+        const sessionServer = new McpServer({ name: 'legacy-sse-test', version: '0.0.0' });
+        await sessionServer.connect(session);
+      };
+    });
+
+    test('should announce the message endpoint and answer over the stream', async function () {
+      await transport.start();
+
+      const stream = await fetch(`http://localhost:${testPort}/sse`, { headers: { 'Accept': 'text/event-stream' } });
+      assert.strictEqual(stream.status, 200);
+      const reader = stream.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = '';
+      const readUntil = async (pattern: RegExp) => {
+        while (!pattern.test(received)) {
+          const { value, done } = await reader.read();
+          if (done) {
+            break;
+          }
+          received += decoder.decode(value);
+        }
+        return received.match(pattern);
+      };
+
+      const endpoint = await readUntil(/event: endpoint\ndata: (\S+)\n/);
+      assert.ok(endpoint, 'Expected an endpoint event');
+      assert.match(endpoint[1], /^\/messages\?sessionId=/);
+
+      const post = await fetch(`http://localhost:${testPort}${endpoint[1]}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: {
+            protocolVersion: '2024-11-05',
+            capabilities: {},
+            clientInfo: { name: 'test-client', version: '0.0.0' },
+          },
+        }),
+      });
+      assert.strictEqual(post.status, 202);
+
+      const message = await readUntil(/event: message\ndata: (.+)\n/);
+      assert.ok(message, 'Expected a message event');
+      assert.strictEqual(JSON.parse(message[1]).result.serverInfo.name, 'legacy-sse-test');
+
+      // close() はストリームを終了させ、サーバーを停止できなければならない
+      // close() must end the stream so the HTTP server can shut down.
+      await transport.close();
+      const { done } = await reader.read();
+      assert.ok(done, 'Expected the SSE stream to end on close');
+    });
+
+    test('should return 404 for unknown sessions', async function () {
+      await transport.start();
+
+      const response = await fetch(`http://localhost:${testPort}/messages?sessionId=unknown`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+      });
+      assert.strictEqual(response.status, 404);
+    });
+  });
 });
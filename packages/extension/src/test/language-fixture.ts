@@ -0,0 +1,51 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export interface LanguageFixture {
+  // ファイルを置く一時ディレクトリ
+  // Temporary directory that holds the files.
+  dir: string;
+  // 一時ディレクトリ内のファイルの絶対パス
+  // Absolute path of a file in the temporary directory.
+  file(name: string): string;
+}
+
+/**
+ * 言語機能を使うツールのテスト用に、一時ファイルと固定のプロバイダーを用意する
+ * Prepare temporary files and fixed providers for the tests of tools that use language features.
+ * 言語サーバーに依存しないよう、各テストスイートは期待する結果を返すプロバイダーを自前で登録します。
+ * Each suite registers providers that return exactly what it expects, so the tests do not depend on a language server.
+ *
+ * suite の中で呼び出すと、ファイルは各テストの前に書き直され (テストによる変更は次のテストに残らない)、
+ * プロバイダーはスイートの間だけ登録されます。
+ * Called inside a suite, the files are rewritten before every test so that changes made by a test do not leak into the next,
+ * and the providers stay registered for the duration of the suite.
+ */
+export function useLanguageFixture(
+  name: string,
+  files: Record<string, string>,
+  registerProviders: (fixture: LanguageFixture) => vscode.Disposable[],
+): LanguageFixture {
+  const dir = path.join(__dirname, `../test-tmp-${name}`);
+  const fixture: LanguageFixture = { dir, file: (fileName) => path.join(dir, fileName) };
+  let registrations: vscode.Disposable[] = [];
+
+  suiteSetup(async () => {
+    await fs.mkdir(dir, { recursive: true });
+    registrations = registerProviders(fixture);
+  });
+
+  setup(async () => {
+    for (const [fileName, content] of Object.entries(files)) {
+      await fs.writeFile(fixture.file(fileName), content);
+    }
+  });
+
+  suiteTeardown(async () => {
+    registrations.forEach((registration) => registration.dispose());
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  return fixture;
+}
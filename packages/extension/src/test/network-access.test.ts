@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { DEFAULT_ALLOWED_HOSTS, isAllowedHost, isAllowedOrigin, toConnectHost } from '../network-access';
+
+suite('Network Access Test Suite', () => {
+  test('isAllowedHost should ignore the port and accept loopback hosts by default', () => {
+    assert.ok(isAllowedHost('localhost:60100', DEFAULT_ALLOWED_HOSTS, '127.0.0.1'));
+    assert.ok(isAllowedHost('127.0.0.1:60100', DEFAULT_ALLOWED_HOSTS, '127.0.0.1'));
+    assert.ok(isAllowedHost('[::1]:60100', DEFAULT_ALLOWED_HOSTS, '127.0.0.1'));
+    assert.ok(isAllowedHost('LOCALHOST', DEFAULT_ALLOWED_HOSTS, '127.0.0.1'));
+    assert.ok(!isAllowedHost('attacker.example.com:60100', DEFAULT_ALLOWED_HOSTS, '127.0.0.1'));
+    assert.ok(!isAllowedHost(undefined, DEFAULT_ALLOWED_HOSTS, '127.0.0.1'));
+  });
+
+  test('isAllowedHost should accept the bind address itself', () => {
+    assert.ok(isAllowedHost('192.168.1.10:60100', DEFAULT_ALLOWED_HOSTS, '192.168.1.10'));
+    assert.ok(!isAllowedHost('192.168.1.10:60100', DEFAULT_ALLOWED_HOSTS, '0.0.0.0'));
+  });
+
+  test('isAllowedOrigin should allow missing origins and only allowlisted ones otherwise', () => {
+    assert.ok(isAllowedOrigin(undefined, []));
+    assert.ok(!isAllowedOrigin('null', []));
+    assert.ok(!isAllowedOrigin('https://attacker.example.com', []));
+    assert.ok(isAllowedOrigin('http://localhost:3000', ['http://localhost:3000/']));
+  });
+
+  test('toConnectHost should map wildcard and IPv6 addresses', () => {
+    assert.strictEqual(toConnectHost('0.0.0.0'), '127.0.0.1');
+    assert.strictEqual(toConnectHost('::'), '127.0.0.1');
+    assert.strictEqual(toConnectHost('::1'), '[::1]');
+    assert.strictEqual(toConnectHost('127.0.0.1'), '127.0.0.1');
+  });
+});
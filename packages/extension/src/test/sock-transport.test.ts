@@ -0,0 +1,166 @@
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { resolveSocketListenTarget, SocketConnectionTransport, SockTransport } from '../sock-transport';
+
+const outputChannel = {
+  appendLine: (_value: string) => { },
+} as unknown as vscode.OutputChannel;
+
+suite('SockTransport Test Suite', function () {
+  this.timeout(10000);
+
+  const socketPath = process.platform === 'win32'
+    ? `\\\\.\\pipe\\vscode-as-mcp-server-test-${process.pid}`
+    : path.join(os.tmpdir(), `vscode-as-mcp-server-test-${process.pid}.sock`);
+  let transport: SockTransport;
+  let sessions: { session: SocketConnectionTransport; received: JSONRPCMessage[] }[];
+
+  // 接続毎に受信したメッセージを記録し、リクエストには同じ ID でエコーする
+  // Record the messages of each connection and echo requests back with the same ID.
+  setup(async function () {
+    sessions = [];
+    transport = new SockTransport(socketPath, outputChannel);
+    transport.onSessionCreated = async (session) => {
+      const entry = { session, received: [] as JSONRPCMessage[] };
+      sessions.push(entry);
+      session.onmessage = (message) => {
+        entry.received.push(message);
+        if ('id' in message && 'method' in message) {
+          void session.send({ jsonrpc: '2.0', id: message.id, result: { method: message.method } });
+        }
+      };
+      await session.start();
+    };
+    await transport.start();
+  });
+
+  teardown(async function () {
+    await transport.close();
+  });
+
+  async function connect(): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(socketPath, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  function readLine(socket: net.Socket): Promise<string> {
+    return new Promise((resolve) => {
+      let buffer = '';
+      const onData = (chunk: Buffer) => {
+        buffer += chunk.toString('utf8');
+        const index = buffer.indexOf('\n');
+        if (index !== -1) {
+          socket.off('data', onData);
+          resolve(buffer.slice(0, index));
+        }
+      };
+      socket.on('data', onData);
+    });
+  }
+
+  async function waitFor(predicate: () => boolean): Promise<void> {
+    for (let i = 0; i < 100 && !predicate(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    assert.ok(predicate(), 'Condition was not met in time');
+  }
+
+  test('should handle coalesced and partial frames', async function () {
+    const socket = await connect();
+    const first = JSON.stringify({ jsonrpc: '2.0', method: 'notifications/first' });
+    const second = JSON.stringify({ jsonrpc: '2.0', method: 'notifications/second' });
+    const third = JSON.stringify({ jsonrpc: '2.0', method: 'notifications/third' });
+
+    socket.write(`${first}\n${second}\n${third.slice(0, 10)}`);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    socket.write(`${third.slice(10)}\n`);
+
+    await waitFor(() => sessions[0]?.received.length === 3);
+    assert.deepStrictEqual(
+      sessions[0].received.map((message) => (message as { method: string }).method),
+      ['notifications/first', 'notifications/second', 'notifications/third'],
+    );
+    socket.destroy();
+  });
+
+  test('should keep separate sessions for multiple connections', async function () {
+    const socketA = await connect();
+    const socketB = await connect();
+
+    const responseA = readLine(socketA);
+    const responseB = readLine(socketB);
+    socketA.write(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'from/a' }) + '\n');
+    socketB.write(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'from/b' }) + '\n');
+
+    assert.deepStrictEqual(JSON.parse(await responseA), { jsonrpc: '2.0', id: 1, result: { method: 'from/a' } });
+    assert.deepStrictEqual(JSON.parse(await responseB), { jsonrpc: '2.0', id: 1, result: { method: 'from/b' } });
+    assert.strictEqual(sessions.length, 2);
+
+    socketA.destroy();
+    socketB.destroy();
+  });
+
+  test('should require the auth token on the first line when authentication is enabled', async function () {
+    await transport.close();
+    transport = new SockTransport(socketPath, outputChannel, () => 'secret-token');
+    transport.onSessionCreated = async (session) => {
+      const entry = { session, received: [] as JSONRPCMessage[] };
+      sessions.push(entry);
+      session.onmessage = (message) => entry.received.push(message);
+      await session.start();
+    };
+    await transport.start();
+
+    const rejected = await connect();
+    const rejection = readLine(rejected);
+    rejected.write(JSON.stringify({ authorization: 'Bearer wrong-token' }) + '\n');
+    assert.match(JSON.parse(await rejection).error.message, /Unauthorized/);
+    await new Promise((resolve) => rejected.once('close', resolve));
+    assert.strictEqual(sessions.length, 0);
+
+    // 認証の行と同じチャンクで送られたメッセージも失われない
+    // Messages sent in the same chunk as the authentication line are not lost.
+    const accepted = await connect();
+    accepted.write(`${JSON.stringify({ authorization: 'Bearer secret-token' })}\n${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/after-auth' })}\n`);
+    await waitFor(() => sessions[0]?.received.length === 1);
+    assert.strictEqual((sessions[0].received[0] as { method: string }).method, 'notifications/after-auth');
+    accepted.destroy();
+  });
+
+  test('should reject connections when authentication is required but the token is missing', async function () {
+    await transport.close();
+    transport = new SockTransport(socketPath, outputChannel, () => null);
+    await transport.start();
+
+    const socket = await connect();
+    const rejection = readLine(socket);
+    socket.write(JSON.stringify({ authorization: 'Bearer anything' }) + '\n');
+    assert.match(JSON.parse(await rejection).error.message, /auth token could not be loaded/);
+    await new Promise((resolve) => socket.once('close', resolve));
+    assert.strictEqual(sessions.length, 0);
+  });
+
+  test('should create the UNIX domain socket accessible only to the owner', async function () {
+    if (process.platform === 'win32') {
+      this.skip();
+    }
+    const stat = await fs.stat(socketPath);
+    assert.strictEqual(stat.mode & 0o777, 0o600);
+  });
+
+  test('resolveSocketListenTarget should treat numeric values as TCP ports', function () {
+    assert.strictEqual(resolveSocketListenTarget('60200'), 60200);
+    assert.strictEqual(resolveSocketListenTarget('/tmp/custom.sock'), '/tmp/custom.sock');
+    assert.ok(resolveSocketListenTarget('').toString().length > 0);
+    if (process.platform !== 'win32') {
+      assert.ok(!resolveSocketListenTarget('').toString().startsWith(os.tmpdir()), 'The default socket should not be in the shared temporary directory');
+    }
+  });
+});
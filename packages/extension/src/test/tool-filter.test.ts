@@ -0,0 +1,161 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { BidiHttpTransport } from '../bidi-http-transport';
+import { createMcpServer, ToolRegistry } from '../mcp-server';
+import { isToolEnabled, matchesToolPattern, ToolFilter } from '../tool-filter';
+
+suite('Tool Filter Test Suite', () => {
+  test('matchesToolPattern should match whole names with * and ? wildcards', () => {
+    assert.ok(matchesToolPattern('copilot_findFiles', 'copilot_*'));
+    assert.ok(matchesToolPattern('execute_command', 'execute_command'));
+    assert.ok(matchesToolPattern('list_debug_sessions', 'list_?ebug_*'));
+    assert.ok(!matchesToolPattern('execute_vscode_command', 'execute_command'));
+    assert.ok(!matchesToolPattern('my_copilot_tool', 'copilot_*'));
+    assert.ok(!matchesToolPattern('anything', '  '));
+  });
+
+  test('isToolEnabled should apply enabledTools as an allowlist and let disabledTools win', () => {
+    assert.ok(isToolEnabled('text_editor', { enabledTools: [], disabledTools: [] }));
+    assert.ok(isToolEnabled('text_editor', { enabledTools: ['text_*'], disabledTools: [] }));
+    assert.ok(!isToolEnabled('execute_command', { enabledTools: ['text_*'], disabledTools: [] }));
+    assert.ok(!isToolEnabled('copilot_runTests', { enabledTools: ['copilot_*'], disabledTools: ['copilot_run*'] }));
+  });
+
+  test('ToolRegistry should hide disabled tools from listing and calls', async () => {
+    const mcpServer = new McpServer({ name: 'tool-filter-test', version: '0.0.0' }, { capabilities: { tools: {} } });
+    const toolFilter = { isEnabled: (name: string) => name !== 'hidden_tool' } as ToolFilter;
+    const registry = new ToolRegistry(mcpServer.server, toolFilter);
+    const respond = async () => ({ content: [{ type: 'text' as const, text: 'ok' }] });
+    registry.tool('visible_tool', 'Visible tool', {}, respond);
+    registry.tool('hidden_tool', 'Hidden tool', {}, respond);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'tool-filter-test-client', version: '0.0.0' });
+    await Promise.all([mcpServer.connect(serverTransport), client.connect(clientTransport)]);
+
+    const { tools } = await client.listTools();
+    assert.deepStrictEqual(tools.map((tool) => tool.name), ['visible_tool']);
+    await assert.rejects(client.callTool({ name: 'hidden_tool', arguments: {} }), /disabled/);
+
+    await client.close();
+  });
+
+  test('ToolRegistry should send tools/list_changed when the exposed tools change', async () => {
+    const mcpServer = new McpServer({ name: 'tool-filter-test', version: '0.0.0' }, { capabilities: { tools: { listChanged: true } } });
+    const onDidChange = new vscode.EventEmitter<void>();
+    let hidden = false;
+    const toolFilter = { isEnabled: (name: string) => !(hidden && name === 'hidden_tool'), onDidChange: onDidChange.event } as ToolFilter;
+    const registry = new ToolRegistry(mcpServer.server, toolFilter);
+    const respond = async () => ({ content: [{ type: 'text' as const, text: 'ok' }] });
+    registry.tool('visible_tool', 'Visible tool', {}, respond);
+    registry.tool('hidden_tool', 'Hidden tool', {}, respond);
+    onDidChange.event(() => registry.notifyToolListChanged());
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'tool-filter-test-client', version: '0.0.0' });
+    let notifications = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      notifications++;
+    });
+    await Promise.all([mcpServer.connect(serverTransport), client.connect(clientTransport)]);
+    await client.listTools();
+
+    // 一覧が変わらない場合は通知しない
+    // No notification while the list is unchanged.
+    onDidChange.fire();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.strictEqual(notifications, 0);
+
+    hidden = true;
+    onDidChange.fire();
+    registry.tool('new_tool', 'New tool', {}, respond);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.strictEqual(notifications, 1);
+
+    await client.close();
+    onDidChange.dispose();
+  });
+
+  test('createMcpServer should keep notifying tool list changes after the server is closed and reconnected', async () => {
+    const outputChannel = vscode.window.createOutputChannel('tool-filter-test');
+    const onDidChange = new vscode.EventEmitter<void>();
+    let hidden = false;
+    const toolFilter = { isEnabled: (name: string) => !(hidden && name === 'text_editor'), onDidChange: onDidChange.event } as ToolFilter;
+    const mcpServer = createMcpServer(outputChannel, toolFilter);
+
+    const connectClient = async () => {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'tool-filter-test-client', version: '0.0.0' });
+      await Promise.all([mcpServer.connect(serverTransport), client.connect(clientTransport)]);
+      await client.listTools();
+      return client;
+    };
+
+    // 拡張機能の停止・再開と同じく、同じインスタンスを閉じてから再接続する
+    // Close and reconnect the same instance, as stopping and restarting the extension's server does.
+    await connectClient();
+    await mcpServer.close();
+    const client = await connectClient();
+    let notifications = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      notifications++;
+    });
+
+    hidden = true;
+    onDidChange.fire();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.strictEqual(notifications, 1);
+    assert.ok(!(await client.listTools()).tools.some((tool) => tool.name === 'text_editor'));
+
+    await client.close();
+    onDidChange.dispose();
+    outputChannel.dispose();
+  });
+
+  test('createMcpServer should notify the relay over /events without an initialize handshake', async function () {
+    this.timeout(10000);
+    const port = 6040;
+    const outputChannel = vscode.window.createOutputChannel('tool-filter-test');
+    const onDidChange = new vscode.EventEmitter<void>();
+    let hidden = false;
+    const toolFilter = { isEnabled: (name: string) => !(hidden && name === 'text_editor'), onDidChange: onDidChange.event } as ToolFilter;
+    const mcpServer = createMcpServer(outputChannel, toolFilter);
+    const transport = new BidiHttpTransport(port, outputChannel);
+    await mcpServer.connect(transport);
+
+    try {
+      // リレーと同じく、initialize を送らずに tools/list だけを送る
+      // Like the relay, send only tools/list without initialize.
+      const listed = await fetch(`http://localhost:${port}/`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+      assert.strictEqual(listed.status, 200);
+
+      const stream = await fetch(`http://localhost:${port}/events`, { headers: { 'Accept': 'text/event-stream' } });
+      const reader = stream.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = '';
+      while (!received.includes(': connected')) {
+        received += decoder.decode((await reader.read()).value);
+      }
+
+      hidden = true;
+      onDidChange.fire();
+      while (!/event: message\ndata: .+\n/.test(received)) {
+        received += decoder.decode((await reader.read()).value);
+      }
+      const data = /event: message\ndata: (.+)\n/.exec(received)![1];
+      assert.strictEqual(JSON.parse(data).method, 'notifications/tools/list_changed');
+    } finally {
+      await mcpServer.close();
+      onDidChange.dispose();
+      outputChannel.dispose();
+    }
+  });
+});
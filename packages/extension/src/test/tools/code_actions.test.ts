@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as vscode from 'vscode';
+import { codeActionsTool } from '../../tools/code_actions';
+import { useLanguageFixture } from '../language-fixture';
+
+suite('Code Actions Tool Test Suite', () => {
+  const fixture = useLanguageFixture('code-actions', {
+    'app.ts': 'const x = 1;\nconsole.log(x);\n',
+  }, () => {
+    const uri = vscode.Uri.file(filePath);
+    const diagnostic = new vscode.Diagnostic(new vscode.Range(1, 0, 1, 7), 'Cannot find name \'console\'.', vscode.DiagnosticSeverity.Error);
+    const diagnosticCollection = vscode.languages.createDiagnosticCollection('code-actions-test');
+    diagnosticCollection.set(uri, [diagnostic]);
+
+    return [diagnosticCollection, vscode.languages.registerCodeActionsProvider({ scheme: 'file', pattern: filePath }, {
+      provideCodeActions: (_document, range) => {
+        const fix = new vscode.CodeAction('Declare \'console\'', vscode.CodeActionKind.QuickFix);
+        fix.diagnostics = [diagnostic];
+        fix.isPreferred = true;
+        fix.edit = new vscode.WorkspaceEdit();
+        fix.edit.insert(uri, new vscode.Position(0, 0), 'declare const console: any;\n');
+
+        const extract = new vscode.CodeAction('Extract to function', vscode.CodeActionKind.RefactorExtract);
+        extract.disabled = { reason: 'Selection is empty' };
+
+        const move = new vscode.CodeAction('Move to a new file', vscode.CodeActionKind.RefactorMove);
+        const newFile = vscode.Uri.file(fixture.file('x.ts'));
+        move.edit = new vscode.WorkspaceEdit();
+        move.edit.createFile(newFile, { ignoreIfExists: true });
+        move.edit.insert(newFile, new vscode.Position(0, 0), 'export const x = 1;\n');
+        move.edit.delete(uri, new vscode.Range(0, 0, 1, 0));
+
+        const actions = [fix, extract, move];
+        return range.contains(diagnostic.range) ? actions : actions.slice(1);
+      },
+    })];
+  });
+  const filePath = fixture.file('app.ts');
+
+  test('Lists diagnostics and code actions for a line', async () => {
+    const result = await codeActionsTool({ action: 'list', path: filePath, line: 2 });
+    assert.strictEqual(result.isError, false, 'Expected success');
+
+    const output = result.content[0].text;
+    assert.match(output, /Diagnostics in range:\n- \[Error\] line 2: Cannot find name 'console'\./);
+    assert.match(output, /1\. \[quickfix\] Declare 'console' \(preferred\) - fixes: Cannot find name 'console'\./);
+    assert.match(output, /2\. \[refactor\.extract\] Extract to function \(disabled: Selection is empty\)/);
+  });
+
+  test('Filters by kind', async () => {
+    const result = await codeActionsTool({ action: 'list', path: filePath, line: 2, kind: 'refactor' });
+    assert.doesNotMatch(result.content[0].text, /quickfix/);
+    assert.match(result.content[0].text, /1\. \[refactor\.extract\] Extract to function/);
+  });
+
+  test('Applies an action by index or title', async () => {
+    const byIndex = await codeActionsTool({ action: 'apply', path: filePath, line: 2, index: 1, skip_dialog: true });
+    assert.strictEqual(byIndex.isError, false, `Expected success: ${byIndex.content[0].text}`);
+    assert.match(byIndex.content[0].text, /Applied code action "Declare 'console'" to 1 file:/);
+    assert.strictEqual(await fs.readFile(filePath, 'utf-8'), 'declare const console: any;\nconst x = 1;\nconsole.log(x);\n');
+
+    const disabled = await codeActionsTool({ action: 'apply', path: filePath, title: 'Extract to function', skip_dialog: true });
+    assert.strictEqual(disabled.isError, true);
+    assert.match(disabled.content[0].text, /is disabled: Selection is empty/);
+
+    const missing = await codeActionsTool({ action: 'apply', path: filePath, line: 1, title: 'No such action', skip_dialog: true });
+    assert.strictEqual(missing.isError, true);
+    assert.match(missing.content[0].text, /Code action "No such action" was not found/);
+  });
+
+  test('Refuses actions that create files before reviewing anything', async () => {
+    const result = await codeActionsTool({ action: 'apply', path: filePath, title: 'Move to a new file', skip_dialog: true });
+    assert.strictEqual(result.isError, true);
+    assert.ok(result.content[0].text.includes(`- create ${fixture.file('x.ts')}`), result.content[0].text);
+    assert.match(result.content[0].text, /no changes were made/);
+    assert.strictEqual(await fs.readFile(filePath, 'utf-8'), 'const x = 1;\nconsole.log(x);\n');
+    await assert.rejects(fs.stat(fixture.file('x.ts')));
+  });
+});
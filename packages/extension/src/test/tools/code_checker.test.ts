@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { codeCheckerTool } from '../../tools/code_checker';
+
+suite('Code Checker Tool Test Suite', () => {
+  const tmpDir = path.join(__dirname, '../../test-tmp-code-checker');
+  const filePath = path.join(tmpDir, 'broken.ts');
+  let diagnosticCollection: vscode.DiagnosticCollection;
+
+  suiteSetup(async () => {
+    await fs.mkdir(tmpDir, { recursive: true });
+    await fs.writeFile(filePath, 'import { unused } from "./lib";\nconst value: number = "text";\nexport {};\n');
+
+    // 言語サーバーに依存しないよう、固定の診断を登録する
+    // Register fixed diagnostics so the tests do not depend on a language server.
+    const uri = vscode.Uri.file(filePath);
+    const typeError = new vscode.Diagnostic(new vscode.Range(1, 6, 1, 11), 'Type \'string\' is not assignable to type \'number\'.', vscode.DiagnosticSeverity.Error);
+    typeError.source = 'ts';
+    typeError.code = { value: 2322, target: vscode.Uri.parse('https://typescript.tv/errors/#ts2322') };
+    typeError.relatedInformation = [
+      new vscode.DiagnosticRelatedInformation(new vscode.Location(uri, new vscode.Range(1, 13, 1, 19)), 'The expected type comes from here.'),
+    ];
+    const unusedImport = new vscode.Diagnostic(new vscode.Range(0, 9, 0, 15), '\'unused\' is declared but never used.', vscode.DiagnosticSeverity.Warning);
+    unusedImport.source = 'eslint';
+    unusedImport.code = 'no-unused-vars';
+    unusedImport.tags = [vscode.DiagnosticTag.Unnecessary];
+
+    diagnosticCollection = vscode.languages.createDiagnosticCollection('code-checker-test');
+    diagnosticCollection.set(uri, [typeError, unusedImport]);
+  });
+
+  suiteTeardown(async () => {
+    diagnosticCollection.dispose();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('Returns positions, codes, tags and related information as JSON', async () => {
+    const result = await codeCheckerTool({ files: [filePath] });
+    const [file] = JSON.parse(result.content[0].text);
+    assert.strictEqual(file.file, filePath);
+
+    const typeError = file.diagnostics.find((diag: { source: string }) => diag.source === 'ts');
+    assert.deepStrictEqual(
+      { line: typeError.line, column: typeError.column, endLine: typeError.endLine, endColumn: typeError.endColumn },
+      { line: 2, column: 7, endLine: 2, endColumn: 12 },
+    );
+    assert.strictEqual(typeError.code, 2322);
+    assert.strictEqual(typeError.codeUrl, 'https://typescript.tv/errors/#ts2322');
+    assert.deepStrictEqual(typeError.relatedInformation, [{ file: filePath, line: 2, column: 14, message: 'The expected type comes from here.' }]);
+
+    const unusedImport = file.diagnostics.find((diag: { source: string }) => diag.source === 'eslint');
+    assert.strictEqual(unusedImport.code, 'no-unused-vars');
+    assert.deepStrictEqual(unusedImport.tags, ['Unnecessary']);
+  });
+
+  test('Filters by severity, source and files', async () => {
+    const errorsOnly = await codeCheckerTool({ files: [filePath], severityLevel: 'Error' });
+    assert.doesNotMatch(errorsOnly.content[0].text, /eslint/);
+
+    const eslintOnly = await codeCheckerTool({ files: [tmpDir], sources: ['ESLint'] });
+    assert.doesNotMatch(eslintOnly.content[0].text, /"ts"/);
+    assert.match(eslintOnly.content[0].text, /no-unused-vars/);
+
+    const otherFiles = await codeCheckerTool({ files: [path.join(tmpDir, 'other.ts')] });
+    assert.strictEqual(otherFiles.content[0].text, 'No issues found.');
+  });
+
+  test('Formats problems as text with source context', async () => {
+    const result = await codeCheckerTool({ files: [filePath], format: 'text', contextLines: 1 });
+    const output = result.content[0].text;
+    assert.ok(output.includes('- [ts Error 2322] 2:7 Type \'string\' is not assignable to type \'number\'. <https://typescript.tv/errors/#ts2322>'));
+    assert.match(output, /    related: .*broken\.ts:2:14 The expected type comes from here\./);
+    assert.ok(output.includes('    2: const value: number = "text";'), 'Should include the problem line');
+    assert.ok(output.includes('    3- export {};'), 'Should include context lines');
+    assert.ok(output.includes('- [eslint Warning no-unused-vars] 1:10 \'unused\' is declared but never used. (Unnecessary)'));
+  });
+
+  test('Reports only diagnostics that are new since a baseline', async () => {
+    const initial = await codeCheckerTool({ files: [filePath], createBaseline: true });
+    const baselineId = /Baseline ID: (\S+)/.exec(initial.content[1].text)?.[1];
+    assert.ok(baselineId, 'Should return a baseline ID');
+
+    const unchanged = await codeCheckerTool({ files: [filePath], sinceBaseline: baselineId });
+    assert.strictEqual(unchanged.content[0].text, 'No new issues found since the baseline.');
+
+    const uri = vscode.Uri.file(filePath);
+    const newError = new vscode.Diagnostic(new vscode.Range(2, 0, 2, 6), 'Newly introduced error.', vscode.DiagnosticSeverity.Error);
+    diagnosticCollection.set(uri, [...diagnosticCollection.get(uri)!, newError]);
+    try {
+      const changed = await codeCheckerTool({ files: [filePath], sinceBaseline: baselineId, format: 'text' });
+      assert.match(changed.content[0].text, /Newly introduced error\./);
+      assert.doesNotMatch(changed.content[0].text, /is not assignable/, 'Existing problems should be excluded');
+    } finally {
+      diagnosticCollection.set(uri, diagnosticCollection.get(uri)!.filter((diag) => diag !== newError));
+    }
+
+    const unknown = await codeCheckerTool({ files: [filePath], sinceBaseline: 'no-such-baseline' });
+    assert.strictEqual(unknown.isError, true);
+  });
+
+  test('Waits for diagnostics to settle before reading them', async () => {
+    const uri = vscode.Uri.file(filePath);
+    const original = [...diagnosticCollection.get(uri)!];
+    const lateError = new vscode.Diagnostic(new vscode.Range(2, 0, 2, 6), 'Reported late.', vscode.DiagnosticSeverity.Error);
+    // 言語サーバーの遅延を模して、少し後に診断を追加する
+    // Add a diagnostic a little later, simulating a slow language server.
+    const timer = setTimeout(() => diagnosticCollection.set(uri, [...original, lateError]), 300);
+    try {
+      const result = await codeCheckerTool({ files: [filePath], waitForDiagnostics: true, timeoutMs: 10000, format: 'text' });
+      assert.match(result.content[0].text, /Reported late\./);
+    } finally {
+      clearTimeout(timer);
+      diagnosticCollection.set(uri, original);
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { codeNavigationTool } from '../../tools/code_navigation';
+import { useLanguageFixture } from '../language-fixture';
+
+suite('Code Navigation Tool Test Suite', () => {
+  const fixture = useLanguageFixture('code-navigation', {
+    'math.ts': [
+      'export function add(a: number, b: number) {',
+      '  return a + b;',
+      '}',
+      '',
+      'const total = add(1, 2);',
+      'console.log(add(total, 3));',
+      '',
+    ].join('\n'),
+  }, () => {
+    const uri = vscode.Uri.file(filePath);
+    const selector: vscode.DocumentSelector = { scheme: 'file', pattern: filePath };
+    const declaration = new vscode.Location(uri, new vscode.Range(0, 16, 0, 19));
+    return [
+      vscode.languages.registerDefinitionProvider(selector, {
+        provideDefinition: () => [{ targetUri: uri, targetRange: new vscode.Range(0, 0, 2, 1), targetSelectionRange: declaration.range }],
+      }),
+      vscode.languages.registerReferenceProvider(selector, {
+        provideReferences: () => [
+          new vscode.Location(uri, new vscode.Range(5, 12, 5, 15)),
+          declaration,
+          new vscode.Location(uri, new vscode.Range(4, 14, 4, 17)),
+        ],
+      }),
+    ];
+  });
+  const filePath = fixture.file('math.ts');
+
+  test('Finds the definition from a line and column with source context', async () => {
+    const result = await codeNavigationTool({ path: filePath, action: 'definition', line: 5, column: 15, context_lines: 1, limit: 100, reveal: false });
+    assert.strictEqual(result.isError, false, 'Expected success');
+
+    const output = result.content[0].text;
+    assert.match(output, /Found 1 definition location\(s\) for the symbol at .*math\.ts:5:15/);
+    assert.ok(output.includes(`${filePath}:1:17`), 'Should point at the declared name');
+    assert.ok(output.includes('  1: export function add(a: number, b: number) {'), 'Should include the target line');
+    assert.ok(output.includes('  2-   return a + b;'), 'Should include context lines');
+  });
+
+  test('Finds references from a symbol name, sorted by position', async () => {
+    const result = await codeNavigationTool({ path: filePath, action: 'references', symbol: 'add', context_lines: 0, limit: 100, reveal: false });
+    assert.strictEqual(result.isError, false, 'Expected success');
+
+    const output = result.content[0].text;
+    assert.match(output, /Found 3 reference location\(s\)/);
+    const first = output.indexOf(`${filePath}:1:17`);
+    const second = output.indexOf(`${filePath}:5:15`);
+    const third = output.indexOf(`${filePath}:6:13`);
+    assert.ok(first !== -1 && first < second && second < third, 'Should list locations in file order');
+  });
+
+  test('Reports an error when the position cannot be resolved', async () => {
+    const result = await codeNavigationTool({ path: filePath, action: 'definition', symbol: 'subtract', context_lines: 1, limit: 100, reveal: false });
+    assert.strictEqual(result.isError, true);
+    assert.match(result.content[0].text, /Symbol "subtract" was not found/);
+  });
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { documentSymbolsTool } from '../../tools/document_symbols';
+import { textEditorTool } from '../../tools/text_editor';
+import { useLanguageFixture } from '../language-fixture';
+
+suite('Document Symbols Tool Test Suite', () => {
+  const fixture = useLanguageFixture('document-symbols', {
+    'counter.ts': [
+      'export class Counter {',
+      '  private count = 0;',
+      '',
+      '  increment(): number {',
+      '    return ++this.count;',
+      '  }',
+      '}',
+      '',
+      'export function increment(counter: Counter) {',
+      '  return counter.increment();',
+      '}',
+      '',
+    ].join('\n'),
+  }, () => [
+    vscode.languages.registerDocumentSymbolProvider({ scheme: 'file', pattern: filePath }, {
+      provideDocumentSymbols: () => {
+        const counter = new vscode.DocumentSymbol('Counter', '', vscode.SymbolKind.Class, new vscode.Range(0, 0, 6, 1), new vscode.Range(0, 13, 0, 20));
+        counter.children = [
+          new vscode.DocumentSymbol('count', 'number', vscode.SymbolKind.Property, new vscode.Range(1, 2, 1, 20), new vscode.Range(1, 10, 1, 15)),
+          new vscode.DocumentSymbol('increment', '(): number', vscode.SymbolKind.Method, new vscode.Range(3, 2, 5, 3), new vscode.Range(3, 2, 3, 11)),
+        ];
+        const increment = new vscode.DocumentSymbol('increment', '', vscode.SymbolKind.Function, new vscode.Range(8, 0, 10, 1), new vscode.Range(8, 16, 8, 25));
+        return [increment, counter];
+      },
+    }),
+  ]);
+  const filePath = fixture.file('counter.ts');
+
+  test('Returns the symbol tree in document order', async () => {
+    const result = await documentSymbolsTool({ path: filePath, top_level_only: false });
+    assert.strictEqual(result.isError, false, 'Expected success');
+
+    const output = result.content[0].text;
+    assert.ok(output.includes('Class Counter (lines 1-7)\n  Property count number (line 2)\n  Method increment (): number (lines 4-6)\nFunction increment (lines 9-11)'));
+  });
+
+  test('Filters to top-level symbols or by name', async () => {
+    const topLevel = await documentSymbolsTool({ path: filePath, top_level_only: true });
+    assert.doesNotMatch(topLevel.content[0].text, /Property count/);
+
+    const named = await documentSymbolsTool({ path: filePath, name: 'Counter.increment', top_level_only: false });
+    assert.match(named.content[0].text, /In Counter:\nMethod increment/);
+    assert.doesNotMatch(named.content[0].text, /Function increment/);
+  });
+
+  test('text_editor views a symbol by name', async () => {
+    const result = await textEditorTool({ command: 'view', path: filePath, symbol: 'Counter.increment' });
+    assert.strictEqual(result.isError, false, 'Expected success');
+    assert.strictEqual(
+      result.content[0].text,
+      `${filePath}: Method Counter.increment\nShowing lines 4-6.\n\n  increment(): number {\n    return ++this.count;\n  }\n`,
+    );
+
+    const ambiguous = await textEditorTool({ command: 'view', path: filePath, symbol: 'increment' });
+    assert.match(ambiguous.content[0].text, /: Method Counter\.increment; 1 other match\(es\) at line 9\nShowing lines 4-6\./);
+
+    const truncated = await textEditorTool({ command: 'view', path: filePath, symbol: 'Counter.increment', max_lines: 2, line_numbers: true });
+    assert.match(truncated.content[0].text, /Showing lines 4-5 only \(limits: 2 lines, \d+ bytes\)\. Continue with view_range \[6, 6\]\.\n\n/);
+    assert.ok(truncated.content[0].text.endsWith('\n\n4 |   increment(): number {\n5 |     return ++this.count;'));
+
+    const missing = await textEditorTool({ command: 'view', path: filePath, symbol: 'decrement' });
+    assert.strictEqual(missing.isError, true);
+  });
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { findFilesTool } from '../../tools/find_files';
+
+suite('Find Files Tool Test Suite', () => {
+  const tmpDir = path.join(__dirname, '../../test-tmp-find-files');
+
+  suiteSetup(async () => {
+    // テスト用ディレクトリ構造を作成
+    // Create the directory structure used for testing.
+    await fs.mkdir(path.join(tmpDir, 'src/nested'), { recursive: true });
+    await fs.mkdir(path.join(tmpDir, 'build'), { recursive: true });
+
+    await fs.writeFile(path.join(tmpDir, 'src/a.ts'), 'export const a = 1;');
+    await fs.writeFile(path.join(tmpDir, 'src/b.ts'), 'export const b = 2;');
+    await fs.writeFile(path.join(tmpDir, 'src/nested/c.ts'), 'export const c = 3;');
+    await fs.writeFile(path.join(tmpDir, 'src/readme.md'), '# readme');
+    await fs.writeFile(path.join(tmpDir, 'build/out.ts'), 'generated');
+    await fs.writeFile(path.join(tmpDir, '.gitignore'), 'build/\n');
+  });
+
+  suiteTeardown(async () => {
+    // テスト用ディレクトリを削除
+    // Remove the temporary directory created for tests.
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('Finds files by glob with sizes and modification times', async () => {
+    const result = await findFilesTool({ pattern: '**/*.ts', path: tmpDir, respect_gitignore: true, use_exclude_settings: true, offset: 0, limit: 100 });
+    assert.strictEqual(result.isError, false, 'Expected success');
+
+    const output = result.content[0].text;
+    assert.match(output, /Found 3 files/);
+    assert.ok(output.includes(path.join(tmpDir, 'src/nested/c.ts')), 'Should contain nested files');
+    assert.doesNotMatch(output, /readme\.md/, 'Should only contain matching files');
+    assert.match(output, /\(19 B, modified \d{4}-\d{2}-\d{2}T/, 'Should include size and modification time');
+  });
+
+  test('Respects .gitignore unless disabled', async () => {
+    const ignored = await findFilesTool({ pattern: '**/*.ts', path: tmpDir, respect_gitignore: true, use_exclude_settings: true, offset: 0, limit: 100 });
+    assert.doesNotMatch(ignored.content[0].text, /out\.ts/, 'Should skip ignored files');
+
+    const all = await findFilesTool({ pattern: '**/*.ts', path: tmpDir, respect_gitignore: false, use_exclude_settings: true, offset: 0, limit: 100 });
+    assert.match(all.content[0].text, /out\.ts/, 'Should include ignored files when disabled');
+  });
+
+  test('Paginates results with offset and limit', async () => {
+    const first = await findFilesTool({ pattern: '**/*.ts', path: tmpDir, respect_gitignore: true, use_exclude_settings: true, offset: 0, limit: 2 });
+    assert.match(first.content[0].text, /showing 1-2/);
+    assert.match(first.content[0].text, /offset=2/);
+
+    const second = await findFilesTool({ pattern: '**/*.ts', path: tmpDir, respect_gitignore: true, use_exclude_settings: true, offset: 2, limit: 2 });
+    assert.match(second.content[0].text, /showing 3-3/);
+    assert.doesNotMatch(second.content[0].text, /More results available/);
+  });
+});
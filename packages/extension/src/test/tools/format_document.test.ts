@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as vscode from 'vscode';
+import { formatDocumentTool } from '../../tools/format_document';
+import { useLanguageFixture } from '../language-fixture';
+
+suite('Format Document Tool Test Suite', () => {
+  // 行末の空白を削除するだけの簡易フォーマッター
+  // Minimal formatter that only trims trailing whitespace.
+  const trimTrailingWhitespace = (document: vscode.TextDocument, range: vscode.Range) => {
+    const edits: vscode.TextEdit[] = [];
+    for (let line = range.start.line; line <= range.end.line; line++) {
+      const text = document.lineAt(line).text;
+      const trimmed = text.trimEnd();
+      if (trimmed.length !== text.length) {
+        edits.push(vscode.TextEdit.delete(new vscode.Range(line, trimmed.length, line, text.length)));
+      }
+    }
+    return edits;
+  };
+
+  const fixture = useLanguageFixture('format-document', {
+    'document.txt': 'first   \nsecond  \nthird \n',
+    'range.txt': 'first   \nsecond  \nthird \n',
+    'inserts.md': 'title\n',
+    'overlapping.md': 'title\n',
+  }, () => {
+    const selector: vscode.DocumentSelector = { scheme: 'file', pattern: fixture.file('*.txt') };
+    return [
+      vscode.languages.registerDocumentFormattingEditProvider(selector, {
+        provideDocumentFormattingEdits: (document) => trimTrailingWhitespace(document, new vscode.Range(0, 0, document.lineCount - 1, 0)),
+      }),
+      vscode.languages.registerDocumentRangeFormattingEditProvider(selector, {
+        provideDocumentRangeFormattingEdits: trimTrailingWhitespace,
+      }),
+      // 同じ位置への挿入、または重なり合う編集を返すフォーマッター
+      // Formatter that returns inserts at the same position, or overlapping edits.
+      vscode.languages.registerDocumentFormattingEditProvider({ scheme: 'file', pattern: fixture.file('*.md') }, {
+        provideDocumentFormattingEdits: (document) => document.uri.fsPath === insertsPath
+          ? [vscode.TextEdit.insert(new vscode.Position(0, 0), '# '), vscode.TextEdit.insert(new vscode.Position(0, 0), 'My ')]
+          : [vscode.TextEdit.replace(new vscode.Range(0, 0, 0, 3), 'Ti'), vscode.TextEdit.replace(new vscode.Range(0, 2, 0, 5), 'TLE')],
+      }),
+    ];
+  });
+  const documentPath = fixture.file('document.txt');
+  const rangePath = fixture.file('range.txt');
+  const insertsPath = fixture.file('inserts.md');
+  const overlappingPath = fixture.file('overlapping.md');
+
+  test('Formats the whole document', async () => {
+    const result = await formatDocumentTool({ path: documentPath, skip_dialog: true });
+    assert.strictEqual(result.isError, false, `Expected success: ${result.content[0].text}`);
+    assert.match(result.content[0].text, /Formatted .*document\.txt \(3 edits\)/);
+    assert.strictEqual(await fs.readFile(documentPath, 'utf-8'), 'first\nsecond\nthird\n');
+  });
+
+  test('Formats only the requested lines', async () => {
+    const result = await formatDocumentTool({ path: rangePath, line: 2, end_line: 2, skip_dialog: true });
+    assert.strictEqual(result.isError, false, `Expected success: ${result.content[0].text}`);
+    assert.strictEqual(await fs.readFile(rangePath, 'utf-8'), 'first   \nsecond\nthird \n');
+  });
+
+  test('Keeps the order of inserts at the same position', async () => {
+    const result = await formatDocumentTool({ path: insertsPath, skip_dialog: true });
+    assert.strictEqual(result.isError, false, `Expected success: ${result.content[0].text}`);
+    assert.strictEqual(await fs.readFile(insertsPath, 'utf-8'), '# My title\n');
+  });
+
+  test('Refuses overlapping edits without changing anything', async () => {
+    const result = await formatDocumentTool({ path: overlappingPath, skip_dialog: true });
+    assert.strictEqual(result.isError, true);
+    assert.match(result.content[0].text, /overlapping changes/);
+    assert.strictEqual(await fs.readFile(overlappingPath, 'utf-8'), 'title\n');
+  });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { hoverInfoTool } from '../../tools/hover_info';
+import { useLanguageFixture } from '../language-fixture';
+
+suite('Hover Info Tool Test Suite', () => {
+  const fixture = useLanguageFixture('hover-info', {
+    'greet.ts': [
+      'function greet(name: string, excited: boolean) {}',
+      'greet("world", true);',
+      '',
+    ].join('\n'),
+  }, () => {
+    const selector: vscode.DocumentSelector = { scheme: 'file', pattern: filePath };
+    return [
+      vscode.languages.registerHoverProvider(selector, {
+        provideHover: () => new vscode.Hover([
+          { language: 'typescript', value: 'function greet(name: string, excited: boolean): void' },
+          new vscode.MarkdownString('Greets someone by **name**.'),
+        ]),
+      }),
+      vscode.languages.registerSignatureHelpProvider(selector, {
+        provideSignatureHelp: (_document, position) => {
+          if (position.line !== 1) {
+            return undefined;
+          }
+          const signature = new vscode.SignatureInformation('greet(name: string, excited: boolean): void', 'Greets someone.');
+          signature.parameters = [
+            new vscode.ParameterInformation('name: string', 'Who to greet'),
+            new vscode.ParameterInformation([29, 45]),
+          ];
+          const signatureHelp = new vscode.SignatureHelp();
+          signatureHelp.signatures = [signature];
+          signatureHelp.activeSignature = 0;
+          signatureHelp.activeParameter = 1;
+          return signatureHelp;
+        },
+      }),
+    ];
+  });
+  const filePath = fixture.file('greet.ts');
+
+  test('Returns hover contents for a symbol', async () => {
+    const result = await hoverInfoTool({ path: filePath, symbol: 'greet', include_signature_help: true });
+    assert.strictEqual(result.isError, false, 'Expected success');
+
+    const output = result.content[0].text;
+    assert.ok(output.includes(`Hover at ${filePath}:1:10`), 'Should report the resolved position');
+    assert.ok(output.includes('```typescript\nfunction greet(name: string, excited: boolean): void\n```'), 'Should render code hovers as code blocks');
+    assert.ok(output.includes('Greets someone by **name**.'), 'Should include markdown hovers');
+    assert.doesNotMatch(output, /Signature help/, 'No signature help outside of a call');
+  });
+
+  test('Returns signature help with the active parameter', async () => {
+    const result = await hoverInfoTool({ path: filePath, line: 2, column: 16, include_signature_help: true });
+    assert.strictEqual(result.isError, false, 'Expected success');
+
+    const output = result.content[0].text;
+    assert.match(output, /Signature help at .*greet\.ts:2:16/);
+    assert.ok(output.includes('greet(name: string, excited: boolean): void (active)'));
+    assert.ok(output.includes('- name: string: Who to greet'));
+    assert.ok(output.includes('- excited: boolean (active)'), 'Should resolve offset labels and mark the active parameter');
+  });
+});
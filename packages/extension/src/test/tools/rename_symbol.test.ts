@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as vscode from 'vscode';
+import { renameSymbolTool } from '../../tools/rename_symbol';
+import { useLanguageFixture } from '../language-fixture';
+
+suite('Rename Symbol Tool Test Suite', () => {
+  // プロバイダーは両ファイルの出現箇所を編集する
+  // The provider edits the occurrences in both files.
+  const fixture = useLanguageFixture('rename-symbol', {
+    'lib.ts': 'export function greet() {}\n',
+    'main.ts': 'import { greet } from \'./lib\';\ngreet();\n',
+  }, () => [
+    vscode.languages.registerRenameProvider({ scheme: 'file', pattern: fixture.file('*.ts') }, {
+      provideRenameEdits: (_document, position, newName) => {
+        if (position.line !== 0) {
+          throw new Error('You cannot rename this element.');
+        }
+        const edit = new vscode.WorkspaceEdit();
+        // テキスト編集を含まず、ファイルの名前だけを変更する
+        // Rename only the file, without any text edits.
+        if (newName === 'moved') {
+          edit.renameFile(vscode.Uri.file(libPath), vscode.Uri.file(fixture.file('moved.ts')));
+          return edit;
+        }
+        edit.replace(vscode.Uri.file(libPath), new vscode.Range(0, 16, 0, 21), newName);
+        edit.replace(vscode.Uri.file(mainPath), new vscode.Range(0, 9, 0, 14), newName);
+        edit.replace(vscode.Uri.file(mainPath), new vscode.Range(1, 0, 1, 5), newName);
+        // 一部の言語サーバーのように、シンボルと一緒にファイルの名前も変更する
+        // Rename the file along with the symbol, as some language servers do.
+        if (newName === 'Greeter') {
+          edit.renameFile(vscode.Uri.file(libPath), vscode.Uri.file(fixture.file('Greeter.ts')));
+        }
+        return edit;
+      },
+    }),
+  ]);
+  const libPath = fixture.file('lib.ts');
+  const mainPath = fixture.file('main.ts');
+
+  test('Applies the rename to every affected file', async () => {
+    const result = await renameSymbolTool({ path: libPath, symbol: 'greet', new_name: 'welcome', skip_dialog: true });
+    assert.strictEqual(result.isError, false, `Expected success: ${result.content[0].text}`);
+
+    const output = result.content[0].text;
+    assert.match(output, /Renamed "greet" to "welcome" in 2 files/);
+    assert.ok(output.includes(`${libPath}: 1 edit`));
+    assert.ok(output.includes(`${mainPath}: 2 edits`));
+
+    assert.strictEqual(await fs.readFile(libPath, 'utf-8'), 'export function welcome() {}\n');
+    assert.strictEqual(await fs.readFile(mainPath, 'utf-8'), 'import { welcome } from \'./lib\';\nwelcome();\n');
+  });
+
+  test('Refuses renames that also rename files without changing anything', async () => {
+    const result = await renameSymbolTool({ path: libPath, symbol: 'greet', new_name: 'Greeter', skip_dialog: true });
+    assert.strictEqual(result.isError, true);
+    assert.match(result.content[0].text, /no changes were made/);
+    assert.ok(result.content[0].text.includes(`rename ${libPath} to ${fixture.file('Greeter.ts')}`));
+    assert.strictEqual(await fs.readFile(libPath, 'utf-8'), 'export function greet() {}\n');
+    assert.strictEqual(await fs.readFile(mainPath, 'utf-8'), 'import { greet } from \'./lib\';\ngreet();\n');
+  });
+
+  test('Refuses renames that only rename files', async () => {
+    const result = await renameSymbolTool({ path: libPath, symbol: 'greet', new_name: 'moved', skip_dialog: true });
+    assert.strictEqual(result.isError, true);
+    assert.match(result.content[0].text, /no changes were made/);
+    assert.ok(result.content[0].text.includes(`rename ${libPath} to ${fixture.file('moved.ts')}`));
+    assert.strictEqual(await fs.readFile(libPath, 'utf-8'), 'export function greet() {}\n');
+    await assert.rejects(fs.access(fixture.file('moved.ts')));
+  });
+
+  test('Reports the provider error when the position cannot be renamed', async () => {
+    const result = await renameSymbolTool({ path: mainPath, line: 2, new_name: 'welcome', skip_dialog: true });
+    assert.strictEqual(result.isError, true);
+    assert.match(result.content[0].text, /You cannot rename this element/);
+    assert.strictEqual(await fs.readFile(mainPath, 'utf-8'), 'import { greet } from \'./lib\';\ngreet();\n');
+  });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { searchSymbolTool } from '../../tools/search_symbol';
+import { useLanguageFixture } from '../language-fixture';
+
+suite('Search Symbol Tool Test Suite', () => {
+  const fixture = useLanguageFixture('search-symbol', {
+    'shapes.ts': [
+      'export class Shape {',
+      '  area(): number { return 0; }',
+      '}',
+      'export function createShape(): Shape { return new Shape(); }',
+      '',
+    ].join('\n'),
+  }, () => {
+    const uri = vscode.Uri.file(filePath);
+    const symbols = [
+      new vscode.SymbolInformation('createShape', vscode.SymbolKind.Function, '', new vscode.Location(uri, new vscode.Range(3, 16, 3, 27))),
+      new vscode.SymbolInformation('area', vscode.SymbolKind.Method, 'Shape', new vscode.Location(uri, new vscode.Range(1, 2, 1, 6))),
+      new vscode.SymbolInformation('Shape', vscode.SymbolKind.Class, '', new vscode.Location(uri, new vscode.Range(0, 13, 0, 18))),
+    ];
+    return [vscode.languages.registerWorkspaceSymbolProvider({
+      provideWorkspaceSymbols: (query) => symbols.filter((symbol) => symbol.name.toLowerCase().includes(query.toLowerCase())),
+    })];
+  });
+  const filePath = fixture.file('shapes.ts');
+
+  test('Returns kind, container, location and snippet with exact matches first', async () => {
+    const result = await searchSymbolTool({ query: 'Shape', exact_match: false, limit: 50, open_file: false });
+    assert.strictEqual(result.isError, false, 'Expected success');
+
+    const output = result.content[0].text;
+    assert.match(output, /Found 2 symbols matching "Shape"/);
+    assert.ok(output.indexOf('Class Shape') < output.indexOf('Function createShape'), 'Exact match should come first');
+    assert.ok(output.includes(`${filePath}:1:14`), 'Should include a 1-based location');
+    assert.ok(output.includes('> export class Shape {'), 'Should include the source line');
+  });
+
+  test('Filters by kind, exact name and limit', async () => {
+    const methods = await searchSymbolTool({ query: 'a', kinds: ['Method'], exact_match: false, limit: 50, open_file: false });
+    assert.match(methods.content[0].text, /Method area in Shape/);
+    assert.doesNotMatch(methods.content[0].text, /Class Shape/);
+
+    const exact = await searchSymbolTool({ query: 'Shape', exact_match: true, limit: 50, open_file: false });
+    assert.match(exact.content[0].text, /Found 1 symbols/);
+
+    const limited = await searchSymbolTool({ query: 'Shape', exact_match: false, limit: 1, open_file: false });
+    assert.match(limited.content[0].text, /showing first 1/);
+  });
+
+  test('Reports when nothing matches', async () => {
+    const result = await searchSymbolTool({ query: 'NoSuchSymbolAnywhere', exact_match: false, limit: 50, open_file: false });
+    assert.strictEqual(result.isError, false);
+    assert.match(result.content[0].text, /No symbols found/);
+  });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { searchTextTool } from '../../tools/search_text';
+
+suite('Search Text Tool Test Suite', () => {
+  const tmpDir = path.join(__dirname, '../../test-tmp-search-text');
+  const defaults = {
+    is_regex: false,
+    case_sensitive: false,
+    whole_word: false,
+    context_lines: 0,
+    max_results: 200,
+    respect_gitignore: true,
+  };
+
+  setup(async () => {
+    // テスト用ファイルを作成
+    // Create the files used for testing.
+    await fs.mkdir(path.join(tmpDir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(tmpDir, 'src/a.ts'), 'const greeting = "hello";\nconsole.log(greeting);\nexport const farewell = "bye";\n');
+    await fs.writeFile(path.join(tmpDir, 'src/b.ts'), 'import { greeting } from "./a";\nconst Greeting = 1;\n');
+    await fs.writeFile(path.join(tmpDir, 'notes.md'), 'greeting notes\n');
+  });
+
+  teardown(async () => {
+    // テスト用ディレクトリを削除
+    // Remove the temporary directory created for tests.
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('Finds literal matches across files', async () => {
+    const result = await searchTextTool({ ...defaults, query: 'greeting', path: tmpDir });
+    assert.strictEqual(result.isError, false, 'Expected success');
+
+    const output = result.content[0].text;
+    assert.match(output, /in 3 files/);
+    assert.ok(output.includes(path.join(tmpDir, 'src/a.ts')), 'Should list matching files');
+    assert.match(output, /  2: console\.log\(greeting\);/, 'Should show line numbers and text');
+  });
+
+  test('Honors case sensitivity, whole words, include globs and context lines', async () => {
+    const caseSensitive = await searchTextTool({ ...defaults, query: 'Greeting', path: tmpDir, case_sensitive: true });
+    assert.match(caseSensitive.content[0].text, /1 matching lines in 1 files/);
+
+    const included = await searchTextTool({ ...defaults, query: 'greeting', path: tmpDir, include: ['**/*.md'] });
+    assert.match(included.content[0].text, /in 1 files/);
+    assert.doesNotMatch(included.content[0].text, /a\.ts/);
+
+    const withContext = await searchTextTool({ ...defaults, query: 'console\\.\\w+', is_regex: true, path: tmpDir, context_lines: 1 });
+    assert.match(withContext.content[0].text, /  1- const greeting/, 'Should show context before');
+    assert.match(withContext.content[0].text, /  3- export const farewell/, 'Should show context after');
+  });
+
+  test('Caps the number of results', async () => {
+    const result = await searchTextTool({ ...defaults, query: 'greeting', path: tmpDir, max_results: 1 });
+    assert.match(result.content[0].text, /Found 1\+ matching lines/);
+  });
+
+  test('Replaces matches in every file', async () => {
+    const result = await searchTextTool({
+      ...defaults,
+      query: 'const (\\w+) = "(\\w+)"',
+      is_regex: true,
+      case_sensitive: true,
+      path: tmpDir,
+      replace: 'const $1 = "$2!"',
+      skip_dialog: true,
+    });
+    assert.strictEqual(result.isError, false, 'Expected success');
+    assert.match(result.content[0].text, /a\.ts: 2 replacements/);
+
+    const content = await fs.readFile(path.join(tmpDir, 'src/a.ts'), 'utf-8');
+    assert.ok(content.includes('const greeting = "hello!"'));
+    assert.ok(content.includes('export const farewell = "bye!"'));
+  });
+
+  test('Never replaces across line breaks', async () => {
+    const result = await searchTextTool({
+      ...defaults,
+      query: 'bye";\\s*',
+      is_regex: true,
+      path: tmpDir,
+      replace: 'bye"; ',
+      skip_dialog: true,
+    });
+    assert.strictEqual(result.isError, false, 'Expected success');
+    assert.match(result.content[0].text, /Replaced text in 1 file:/);
+
+    const content = await fs.readFile(path.join(tmpDir, 'src/a.ts'), 'utf-8');
+    assert.ok(content.endsWith('export const farewell = "bye"; \n'));
+  });
+});
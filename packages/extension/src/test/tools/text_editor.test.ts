@@ -3,6 +3,13 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { textEditorTool } from '../../tools/text_editor';
 
+// view の出力を、空行で区切られた見出し (概要) と本文に分ける
+// Split view output into its header (the summary) and the text after the blank line.
+function splitView(output: string): { header: string; body: string } {
+  const separator = output.indexOf('\n\n');
+  return { header: output.slice(0, separator), body: output.slice(separator + 2) };
+}
+
 suite('Text Editor Tool Test Suite', () => {
   const tmpDir = path.join(__dirname, '../../test-tmp');
 
@@ -33,7 +40,7 @@ suite('Text Editor Tool Test Suite', () => {
     });
 
     assert.strictEqual(result.isError, false, 'Expected success');
-    assert.strictEqual(result.content[0].text, 'line1\nline2\nline3\n', 'Content should match');
+    assert.strictEqual(splitView(result.content[0].text).body, 'line1\nline2\nline3\n', 'Content should match');
   });
 
   test('View file with range', async () => {
@@ -44,7 +51,58 @@ suite('Text Editor Tool Test Suite', () => {
     });
 
     assert.strictEqual(result.isError, false, 'Expected success');
-    assert.strictEqual(result.content[0].text, 'line2\nline3\n', 'Content should match range');
+    assert.strictEqual(splitView(result.content[0].text).body, 'line2\nline3\n', 'Content should match range');
+  });
+
+  test('View file with line numbers and a summary', async () => {
+    const result = await textEditorTool({
+      command: 'view',
+      path: path.join(tmpDir, 'test.txt'),
+      view_range: [2, -1],
+      line_numbers: true,
+    });
+
+    assert.strictEqual(result.isError, false, 'Expected success');
+    const { header, body } = splitView(result.content[0].text);
+    assert.strictEqual(body, '2 | line2\n3 | line3', 'Lines should be numbered from the start of the range');
+    assert.match(header, /^.*test\.txt: 3 lines, language: plaintext, encoding: utf8\nShowing lines 2-3\.$/);
+  });
+
+  test('Truncate large files with a continuation hint', async () => {
+    const testFile = path.join(tmpDir, 'large.txt');
+    const lines = Array.from({ length: 50 }, (_, index) => `row ${index + 1}`);
+    await vscode.workspace.fs.writeFile(vscode.Uri.file(testFile), Buffer.from(`${lines.join('\n')}\n`, 'utf-8'));
+
+    const byLines = await textEditorTool({ command: 'view', path: testFile, max_lines: 10 });
+    assert.strictEqual(splitView(byLines.content[0].text).body, `${lines.slice(0, 10).join('\n')}\n`);
+    assert.match(splitView(byLines.content[0].text).header, /Showing lines 1-10 only .* Continue with view_range \[11, -1\]\./);
+
+    const byBytes = await textEditorTool({ command: 'view', path: testFile, view_range: [11, 20], max_bytes: 20, line_numbers: true });
+    assert.strictEqual(splitView(byBytes.content[0].text).body, '11 | row 11\n12 | row 12');
+    assert.match(splitView(byBytes.content[0].text).header, /Continue with view_range \[13, 20\]\./);
+  });
+
+  test('View the text of notebooks and report binary files', async () => {
+    const notebookFile = path.join(tmpDir, 'notebook.ipynb');
+    const notebook = {
+      cells: [
+        { cell_type: 'markdown', source: '# Title\n' },
+        { cell_type: 'code', source: ['x = 1\n', 'print(x)'] },
+      ],
+    };
+    await vscode.workspace.fs.writeFile(vscode.Uri.file(notebookFile), Buffer.from(JSON.stringify(notebook), 'utf-8'));
+
+    const notebookResult = await textEditorTool({ command: 'view', path: notebookFile, view_range: [2, -1], line_numbers: true });
+    assert.strictEqual(notebookResult.isError, false, 'Expected success');
+    assert.strictEqual(splitView(notebookResult.content[0].text).body, '2 | x = 1\n3 | print(x)');
+    assert.match(splitView(notebookResult.content[0].text).header, /notebook\.ipynb: 3 lines of text extracted from the IPYNB document/);
+
+    const imageFile = path.join(tmpDir, 'image.png');
+    await vscode.workspace.fs.writeFile(vscode.Uri.file(imageFile), new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00, 0x00, 0x0d, 0x00, 0x01]));
+
+    const imageResult = await textEditorTool({ command: 'view', path: imageFile });
+    assert.strictEqual(imageResult.isError, true, 'Expected error');
+    assert.strictEqual(imageResult.content[0].text, 'Error reading file: Cannot read text for file type: .png (image/png, 10 bytes)');
   });
 
   test('Create file in new directory', async () => {
@@ -94,6 +152,60 @@ suite('Text Editor Tool Test Suite', () => {
     assert.strictEqual(Buffer.from(newContent).toString('utf-8'), 'new text here\n', 'Content should be replaced');
   });
 
+  test('Refuse ambiguous replacements unless an occurrence is chosen', async () => {
+    const testFile = path.join(tmpDir, 'ambiguous.txt');
+    const uri = vscode.Uri.file(testFile);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from('value = 1\nother\nvalue = 1\n', 'utf-8'));
+
+    const ambiguous = await textEditorTool({ command: 'str_replace', path: testFile, old_str: 'value = 1', new_str: 'value = 2', skip_dialog: true });
+    assert.strictEqual(ambiguous.isError, true, 'Expected error for an ambiguous match');
+    assert.match(ambiguous.content[0].text, /found 2 times \(lines 1, 3\)/);
+    assert.strictEqual(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'), 'value = 1\nother\nvalue = 1\n', 'File should be unchanged');
+
+    const second = await textEditorTool({ command: 'str_replace', path: testFile, old_str: 'value = 1', new_str: 'value = 2', occurrence: 2, skip_dialog: true });
+    assert.strictEqual(second.isError, false, `Expected success: ${second.content[0].text}`);
+    assert.strictEqual(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'), 'value = 1\nother\nvalue = 2\n');
+
+    const all = await textEditorTool({ command: 'str_replace', path: testFile, old_str: 'value', new_str: 'result', replace_all: true, skip_dialog: true });
+    assert.match(all.content[0].text, /2 occurrences replaced/);
+    assert.strictEqual(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'), 'result = 1\nother\nresult = 2\n');
+  });
+
+  test('Fall back to ignoring whitespace differences', async () => {
+    const testFile = path.join(tmpDir, 'whitespace.txt');
+    const uri = vscode.Uri.file(testFile);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from('function f() {\n    return  1;\n}\n', 'utf-8'));
+
+    const result = await textEditorTool({
+      command: 'str_replace',
+      path: testFile,
+      old_str: '{\n  return 1;\n}',
+      new_str: '{\n    return 2;\n}',
+      skip_dialog: true,
+    });
+
+    assert.strictEqual(result.isError, false, `Expected success: ${result.content[0].text}`);
+    assert.match(result.content[0].text, /matched ignoring whitespace differences/);
+    assert.strictEqual(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'), 'function f() {\n    return 2;\n}\n');
+  });
+
+  test('Keep indentation and newlines when an indented line matches ignoring whitespace', async () => {
+    const testFile = path.join(tmpDir, 'whitespace-indented.txt');
+    const uri = vscode.Uri.file(testFile);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from('function f() {\n    return  1;\n}\n', 'utf-8'));
+
+    const result = await textEditorTool({
+      command: 'str_replace',
+      path: testFile,
+      old_str: '    return 1;\n',
+      new_str: '    return 2;\n',
+      skip_dialog: true,
+    });
+
+    assert.strictEqual(result.isError, false, `Expected success: ${result.content[0].text}`);
+    assert.strictEqual(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'), 'function f() {\n    return 2;\n}\n');
+  });
+
   test('Insert text in file', async () => {
     const testFile = path.join(tmpDir, 'insert.txt');
 
@@ -121,6 +233,169 @@ suite('Text Editor Tool Test Suite', () => {
     assert.strictEqual(Buffer.from(newContent).toString('utf-8'), 'line1\nline2\nline3\n', 'Content should be inserted');
   });
 
+  test('Report problems introduced by an edit', async () => {
+    const testFile = path.join(tmpDir, 'diagnostics.ts');
+    const uri = vscode.Uri.file(testFile);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from('const value: number = 1;\n', 'utf-8'));
+
+    // 言語サーバーを模して、書き込みの少し後に診断を報告する
+    // Report diagnostics a little after the write, simulating a language server.
+    const diagnosticCollection = vscode.languages.createDiagnosticCollection('text-editor-test');
+    const timer = setTimeout(() => diagnosticCollection.set(uri, [
+      new vscode.Diagnostic(new vscode.Range(0, 6, 0, 11), 'Type \'string\' is not assignable to type \'number\'.', vscode.DiagnosticSeverity.Error),
+      new vscode.Diagnostic(new vscode.Range(0, 0, 0, 5), 'Unreported hint.', vscode.DiagnosticSeverity.Hint),
+    ]), 100);
+    try {
+      const result = await textEditorTool({
+        command: 'str_replace',
+        path: testFile,
+        old_str: '1',
+        new_str: '"text"',
+        skip_dialog: true,
+      });
+
+      assert.strictEqual(result.isError, false, 'Expected success');
+      assert.match(result.content[0].text, /New problems detected after saving the file:/);
+      assert.match(result.content[0].text, /\[Error\] 1 \| const value: number = "text"; : Type 'string' is not assignable/);
+      assert.doesNotMatch(result.content[0].text, /Unreported hint/, 'Hints are below the default severity');
+    } finally {
+      clearTimeout(timer);
+      diagnosticCollection.dispose();
+    }
+  });
+
+  test('Apply several edits to several files at once', async () => {
+    const firstFile = path.join(tmpDir, 'multi-first.txt');
+    const secondFile = path.join(tmpDir, 'multi-second.txt');
+    await vscode.workspace.fs.writeFile(vscode.Uri.file(firstFile), Buffer.from('alpha\nbeta\ngamma\n', 'utf-8'));
+    await vscode.workspace.fs.writeFile(vscode.Uri.file(secondFile), Buffer.from('one\ntwo\n', 'utf-8'));
+
+    const result = await textEditorTool({
+      command: 'multi_edit',
+      path: firstFile,
+      edits: [
+        { old_str: 'alpha', new_str: 'ALPHA' },
+        { old_str: 'gamma', new_str: 'GAMMA' },
+        { path: secondFile, old_str: 'two', new_str: 'TWO' },
+      ],
+      skip_dialog: true,
+    });
+
+    assert.strictEqual(result.isError, false, `Expected success: ${result.content[0].text}`);
+    assert.match(result.content[0].text, /Applied 3 edits to 2 files/);
+    assert.strictEqual(Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(firstFile))).toString('utf-8'), 'ALPHA\nbeta\nGAMMA\n');
+    assert.strictEqual(Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(secondFile))).toString('utf-8'), 'one\nTWO\n');
+  });
+
+  test('Apply a unified diff', async () => {
+    const testFile = path.join(tmpDir, 'patch.txt');
+    await vscode.workspace.fs.writeFile(vscode.Uri.file(testFile), Buffer.from('line1\nline2\nline3\nline4\nline5\n', 'utf-8'));
+
+    const result = await textEditorTool({
+      command: 'apply_patch',
+      path: testFile,
+      patch: [
+        '@@ -1,2 +1,2 @@',
+        ' line1',
+        '-line2',
+        '+line two',
+        '@@ -4,2 +4,3 @@',
+        ' line4',
+        '+line4.5',
+        ' line5',
+        '',
+      ].join('\n'),
+      skip_dialog: true,
+    });
+
+    assert.strictEqual(result.isError, false, `Expected success: ${result.content[0].text}`);
+    assert.strictEqual(
+      Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(testFile))).toString('utf-8'),
+      'line1\nline two\nline3\nline4\nline4.5\nline5\n',
+    );
+  });
+
+  test('Apply nothing when an edit does not match', async () => {
+    const testFile = path.join(tmpDir, 'atomic.txt');
+    const uri = vscode.Uri.file(testFile);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from('same\nsame\nunique\n', 'utf-8'));
+
+    const result = await textEditorTool({
+      command: 'multi_edit',
+      path: testFile,
+      edits: [
+        { old_str: 'unique', new_str: 'changed' },
+        { old_str: 'missing', new_str: 'x' },
+        { old_str: 'same', new_str: 'y' },
+      ],
+      skip_dialog: true,
+    });
+
+    assert.strictEqual(result.isError, true, 'Expected error');
+    assert.match(result.content[0].text, /2 of 3 edits did not apply/);
+    assert.match(result.content[0].text, /- Edit 2: text to replace was not found/);
+    assert.match(result.content[0].text, /- Edit 3: text to replace was found 2 times/);
+    assert.strictEqual(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'), 'same\nsame\nunique\n', 'File should be unchanged');
+  });
+
+  test('Undo and redo recorded edits', async () => {
+    const testFile = path.join(tmpDir, 'history.txt');
+    const uri = vscode.Uri.file(testFile);
+    const read = async () => Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+
+    const created = await textEditorTool({ command: 'create', path: testFile, file_text: 'first\n', skip_dialog: true }, 'history-session');
+    const replaced = await textEditorTool({ command: 'str_replace', path: testFile, old_str: 'first', new_str: 'second', skip_dialog: true }, 'history-session');
+    const editId = Number(/edit #(\d+)/.exec(replaced.content[0].text)?.[1]);
+    assert.ok(editId > 0, `Should report the edit number: ${replaced.content[0].text}`);
+
+    const listed = await textEditorTool({ command: 'list_edits', path: testFile, session_id: 'history-session' });
+    assert.match(listed.content[0].text, new RegExp(`#${editId} \\S+ str_replace \\[session history-session\\]`));
+    assert.match(listed.content[0].text, /history\.txt \(created\)/);
+
+    const undone = await textEditorTool({ command: 'undo_edit', path: testFile, edit_id: editId, skip_dialog: true });
+    assert.strictEqual(undone.isError, false, `Expected success: ${undone.content[0].text}`);
+    assert.strictEqual(await read(), 'first\n');
+
+    const redone = await textEditorTool({ command: 'redo_edit', path: testFile, skip_dialog: true });
+    assert.strictEqual(redone.isError, false, `Expected success: ${redone.content[0].text}`);
+    assert.strictEqual(await read(), 'second\n');
+
+    // 履歴の後に変更されたファイルは元に戻さない
+    // Files changed outside the history are not reverted.
+    await vscode.workspace.fs.writeFile(uri, Buffer.from('changed elsewhere\n', 'utf-8'));
+    const conflict = await textEditorTool({ command: 'undo_edit', path: testFile, edit_id: editId, skip_dialog: true });
+    assert.strictEqual(conflict.isError, true, 'Expected a conflict');
+    assert.match(conflict.content[0].text, /has changed since the edit/);
+    assert.strictEqual(await read(), 'changed elsewhere\n');
+
+    // セッションのすべての編集を元に戻すと、作成したファイルも削除される
+    // Undoing every edit of the session also deletes the file it created.
+    await vscode.workspace.fs.writeFile(uri, Buffer.from('second\n', 'utf-8'));
+    assert.match(created.content[0].text, /edit #\d+/);
+    const sessionUndone = await textEditorTool({ command: 'undo_edit', path: testFile, session_id: 'current', skip_dialog: true }, 'history-session');
+    assert.strictEqual(sessionUndone.isError, false, `Expected success: ${sessionUndone.content[0].text}`);
+    await assert.rejects(async () => await vscode.workspace.fs.stat(uri), 'The created file should be deleted');
+  });
+
+  test('Discard undone edits on a new edit and skip files too large to record', async () => {
+    const testFile = path.join(tmpDir, 'history-limits.txt');
+    const uri = vscode.Uri.file(testFile);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from('one\n', 'utf-8'));
+
+    await textEditorTool({ command: 'str_replace', path: testFile, old_str: 'one', new_str: 'two', skip_dialog: true });
+    await textEditorTool({ command: 'undo_edit', path: testFile, skip_dialog: true });
+    await textEditorTool({ command: 'str_replace', path: testFile, old_str: 'one', new_str: 'three', skip_dialog: true });
+    const redone = await textEditorTool({ command: 'redo_edit', path: testFile, skip_dialog: true });
+    assert.strictEqual(redone.isError, true, 'The undone edit should no longer be redoable');
+    assert.strictEqual(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'), 'three\n');
+
+    const largeFile = path.join(tmpDir, 'history-large.txt');
+    const large = await textEditorTool({ command: 'create', path: largeFile, file_text: 'x'.repeat(2 * 1024 * 1024), skip_dialog: true });
+    assert.strictEqual(large.isError, false, `Expected success: ${large.content[0].text}`);
+    assert.match(large.content[0].text, /Not recorded in the edit history because it is larger than \d+ bytes/);
+    assert.doesNotMatch(large.content[0].text, /Recorded as edit #/);
+  });
+
   test('Handle non-existent file', async () => {
     const result = await textEditorTool({
       command: 'view',
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+
+export interface ToolFilterSettings {
+  // 空でない場合、いずれかのパターンに一致するツールのみ公開する
+  // When non-empty, only tools matching one of these patterns are exposed.
+  enabledTools: string[];
+  // 一致するツールは enabledTools より優先して非公開にする
+  // Tools matching these patterns are hidden, taking precedence over enabledTools.
+  disabledTools: string[];
+}
+
+// `*` は任意の文字列、`?` は任意の 1 文字に一致する (ツール名全体と比較)
+// `*` matches any sequence and `?` any single character; the whole tool name must match.
+export function matchesToolPattern(toolName: string, pattern: string): boolean {
+  const trimmedPattern = pattern.trim();
+  if (!trimmedPattern) {
+    return false;
+  }
+
+  const escaped = trimmedPattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`).test(toolName);
+}
+
+export function isToolEnabled(toolName: string, settings: ToolFilterSettings): boolean {
+  if (settings.disabledTools.some((pattern) => matchesToolPattern(toolName, pattern))) {
+    return false;
+  }
+  if (settings.enabledTools.length === 0) {
+    return true;
+  }
+  return settings.enabledTools.some((pattern) => matchesToolPattern(toolName, pattern));
+}
+
+/**
+ * `mcpServer.enabledTools` / `mcpServer.disabledTools` 設定に基づいてツールを絞り込む
+ * Filters tools according to the `mcpServer.enabledTools` / `mcpServer.disabledTools` settings.
+ * 設定が変更されると再読み込みし、onDidChange を発火します。
+ * Reloads when the settings change and fires onDidChange.
+ */
+export class ToolFilter implements vscode.Disposable {
+  private settings: ToolFilterSettings;
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+  private readonly configurationListener: vscode.Disposable;
+
+  constructor(private readonly outputChannel: vscode.OutputChannel) {
+    this.settings = this.readSettings();
+    this.configurationListener = vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('mcpServer.enabledTools') || event.affectsConfiguration('mcpServer.disabledTools')) {
+        this.settings = this.readSettings();
+        this.outputChannel.appendLine(`Tool filter updated: enabled=${JSON.stringify(this.settings.enabledTools)}, disabled=${JSON.stringify(this.settings.disabledTools)}`);
+        this._onDidChange.fire();
+      }
+    });
+  }
+
+  isEnabled(toolName: string): boolean {
+    return isToolEnabled(toolName, this.settings);
+  }
+
+  dispose(): void {
+    this.configurationListener.dispose();
+    this._onDidChange.dispose();
+  }
+
+  private readSettings(): ToolFilterSettings {
+    const config = vscode.workspace.getConfiguration('mcpServer');
+    return {
+      enabledTools: config.get<string[]>('enabledTools', []),
+      disabledTools: config.get<string[]>('disabledTools', []),
+    };
+  }
+}
@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import { z } from 'zod';
+import { diagnosticsToProblemsString, getNewDiagnostics } from '../utils/diagnostics';
+import { confirmChanges, describeUnsupportedWorkspaceEditOperations, reviewFileChanges, workspaceEditToFileChanges } from '../utils/multi_file_review';
+import { getLineRange } from '../utils/source_location';
+import { resolvePath } from './list_directory';
+
+// 適用時に解決 (resolve) するコードアクションの最大数
+// Maximum number of code actions resolved when applying one.
+const MAX_RESOLVED_ACTIONS = 100;
+
+export const codeActionsSchema = z.object({
+  action: z.enum(['list', 'apply']).optional().default('list').describe('"list" the available code actions, or "apply" one of them (default: "list")'),
+  path: z.string().describe('File to get code actions for (absolute or relative to the first workspace folder)'),
+  line: z.number().int().min(1).optional().describe('1-based first line of the range, e.g. the line of a diagnostic. Defaults to the whole file.'),
+  end_line: z.number().int().min(1).optional().describe('1-based last line of the range (default: line)'),
+  kind: z.string().optional().describe('Only return actions of this kind or its sub-kinds, e.g. "quickfix", "refactor", "source.organizeImports"'),
+  index: z.number().int().min(1).optional().describe('1-based index of the action to apply, as shown by "list" (apply)'),
+  title: z.string().optional().describe('Exact title of the action to apply, instead of index (apply)'),
+  skip_dialog: z.boolean().optional().describe('Skip confirmation dialog (for testing only)'),
+});
+
+type CodeActionsParams = z.infer<typeof codeActionsSchema>;
+
+interface CodeActionsResult {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * 範囲に対するコードアクション (クイックフィックス、インポートの整理、リファクタリング) を一覧または適用する
+ * List or apply the code actions (quick fixes, organize imports, refactorings) for a range.
+ * 適用時は編集内容を差分で確認してから保存し、新たに発生したエラーを返します。
+ * Edits are reviewed as diffs before saving, and any newly introduced errors are returned.
+ */
+export async function codeActionsTool(params: CodeActionsParams): Promise<CodeActionsResult> {
+  try {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(resolvePath(params.path)));
+    const range = getLineRange(document, params.line, params.end_line);
+    const isApply = params.action === 'apply';
+
+    const actions = await vscode.commands.executeCommand<(vscode.CodeAction | vscode.Command)[] | undefined>(
+      'vscode.executeCodeActionProvider',
+      document.uri,
+      range,
+      params.kind,
+      isApply ? MAX_RESOLVED_ACTIONS : undefined,
+    ) ?? [];
+
+    if (!isApply) {
+      return { content: [{ type: 'text', text: formatActionList(document, range, actions) }], isError: false };
+    }
+
+    const selected = params.title !== undefined
+      ? actions.find((action) => action.title === params.title)
+      : params.index !== undefined ? actions[params.index - 1] : undefined;
+    if (!selected) {
+      const reason = params.title === undefined && params.index === undefined
+        ? 'Specify the index or title of the code action to apply.'
+        : `Code action ${params.title !== undefined ? `"${params.title}"` : `#${params.index}`} was not found.`;
+      return {
+        content: [{ type: 'text', text: `${reason}\n\n${formatActionList(document, range, actions)}` }],
+        isError: true,
+      };
+    }
+
+    return await applyCodeAction(selected, params.skip_dialog);
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error with code actions: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+// コードアクションでない Command だけのプロバイダー結果は CodeAction と同様に扱う
+// Providers may return bare Commands instead of CodeActions; both are handled alike.
+function isCodeAction(action: vscode.CodeAction | vscode.Command): action is vscode.CodeAction {
+  return !('command' in action && typeof action.command === 'string');
+}
+
+// 範囲内の診断と、番号付きのコードアクション一覧を整形する
+// Format the diagnostics in the range and the numbered list of code actions.
+function formatActionList(document: vscode.TextDocument, range: vscode.Range, actions: (vscode.CodeAction | vscode.Command)[]): string {
+  const lines: string[] = [];
+  const diagnostics = vscode.languages.getDiagnostics(document.uri).filter((diagnostic) => range.intersection(diagnostic.range));
+  if (diagnostics.length > 0) {
+    lines.push('Diagnostics in range:');
+    for (const diagnostic of diagnostics) {
+      const source = diagnostic.source ? `${diagnostic.source} ` : '';
+      lines.push(`- [${source}${vscode.DiagnosticSeverity[diagnostic.severity]}] line ${diagnostic.range.start.line + 1}: ${diagnostic.message}`);
+    }
+    lines.push('');
+  }
+
+  if (actions.length === 0) {
+    lines.push(`No code actions available for lines ${range.start.line + 1}-${range.end.line + 1} of ${document.uri.fsPath}`);
+    return lines.join('\n');
+  }
+
+  lines.push(`Code actions for lines ${range.start.line + 1}-${range.end.line + 1} of ${document.uri.fsPath}:`);
+  actions.forEach((action, index) => {
+    let line = `${index + 1}. `;
+    if (isCodeAction(action)) {
+      line += action.kind ? `[${action.kind.value}] ` : '';
+      line += action.title;
+      line += action.isPreferred ? ' (preferred)' : '';
+      line += action.disabled ? ` (disabled: ${action.disabled.reason})` : '';
+      if (action.diagnostics && action.diagnostics.length > 0) {
+        line += ` - fixes: ${action.diagnostics.map((diagnostic) => diagnostic.message).join('; ')}`;
+      }
+    } else {
+      line += action.title;
+    }
+    lines.push(line);
+  });
+  return lines.join('\n');
+}
+
+// WorkspaceEdit は差分で確認してから保存し、その後コマンドがあれば実行する
+// The WorkspaceEdit is reviewed as diffs and saved, then the command (if any) is executed.
+async function applyCodeAction(action: vscode.CodeAction | vscode.Command, skipDialog?: boolean): Promise<CodeActionsResult> {
+  const codeAction = isCodeAction(action) ? action : undefined;
+  const command = codeAction ? codeAction.command : action as vscode.Command;
+  if (codeAction?.disabled) {
+    return {
+      content: [{ type: 'text', text: `Code action "${action.title}" is disabled: ${codeAction.disabled.reason}` }],
+      isError: true,
+    };
+  }
+
+  // 新しいファイルへの移動などのファイル操作は確認ダイアログの前に断る
+  // Refuse file operations, such as moving code to a new file, before showing any review dialog.
+  const unsupported = codeAction?.edit ? describeUnsupportedWorkspaceEditOperations(codeAction.edit) : [];
+  if (unsupported.length > 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Code action "${action.title}" cannot be applied because it would also:\n${unsupported.map((operation) => `- ${operation}`).join('\n')}\n`
+          + 'Creating, renaming and deleting files is not supported; no changes were made.',
+      }],
+      isError: true,
+    };
+  }
+
+  const changes = codeAction?.edit ? await workspaceEditToFileChanges(codeAction.edit) : [];
+  if (changes.length === 0 && !command) {
+    return {
+      content: [{ type: 'text', text: `Code action "${action.title}" would not change any file` }],
+      isError: false,
+    };
+  }
+
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+  let newProblemsMessage = '';
+  if (changes.length > 0) {
+    const review = await reviewFileChanges(
+      changes,
+      `Apply code action "${action.title}" to ${changes.length} file${changes.length === 1 ? '' : 's'}?`,
+      skipDialog,
+    );
+    if (!review.approved) {
+      return {
+        content: [{
+          type: 'text',
+          text: review.feedback
+            ? `Code action was rejected by the user with feedback: ${review.feedback}`
+            : 'Code action was rejected by the user',
+        }],
+        isError: true,
+      };
+    }
+    newProblemsMessage = review.newProblemsMessage;
+  } else if (!skipDialog) {
+    // 編集を伴わないコマンドは差分を表示できないため、実行前に確認だけ行う
+    // Commands without an edit have no diff to show, so only ask before running them.
+    const confirmation = await confirmChanges(`Run code action "${action.title}"?`, command?.command ?? '');
+    if (!confirmation.approved) {
+      return {
+        content: [{
+          type: 'text',
+          text: confirmation.feedback
+            ? `Code action was rejected by the user with feedback: ${confirmation.feedback}`
+            : 'Code action was rejected by the user',
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  if (command) {
+    const preDiagnostics = vscode.languages.getDiagnostics();
+    await vscode.commands.executeCommand(command.command, ...(command.arguments ?? []));
+    if (changes.length === 0) {
+      const newProblems = await diagnosticsToProblemsString(
+        getNewDiagnostics(preDiagnostics, vscode.languages.getDiagnostics()),
+        [vscode.DiagnosticSeverity.Error],
+        workspaceRoot,
+      );
+      newProblemsMessage = newProblems.length > 0 ? `\n\nNew problems detected after running the action:\n${newProblems}` : '';
+    }
+  }
+
+  let text = `Applied code action "${action.title}"`;
+  if (changes.length > 0) {
+    text += ` to ${changes.length} file${changes.length === 1 ? '' : 's'}:\n${changes.map((change) => `${change.filePath}: ${change.editCount} edit${change.editCount === 1 ? '' : 's'}`).join('\n')}`;
+  }
+  return { content: [{ type: 'text', text: `${text}${newProblemsMessage}` }], isError: false };
+}
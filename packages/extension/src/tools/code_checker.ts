@@ -1,33 +1,282 @@
-import { DiagnosticSeverity, languages } from 'vscode';
+import { randomUUID } from 'node:crypto';
+import * as ignore from 'ignore';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag, languages, Uri, workspace } from 'vscode';
+import { z } from 'zod';
+import { DIAGNOSTICS_SETTLE_MS, getNewDiagnostics, waitForDiagnosticsToSettle } from '../utils/diagnostics';
+import { toPosixPath } from '../utils/path';
+import { formatSourceLines, readSourceLines } from '../utils/source_location';
+
+export const codeCheckerSchema = z.object({
+    severityLevel: z
+        .enum(['Error', 'Warning', 'Information', 'Hint'])
+        .default('Warning')
+        .describe("Minimum severity level for checking issues: 'Error', 'Warning', 'Information', or 'Hint'."),
+    files: z
+        .array(z.string())
+        .optional()
+        .describe('Only check these files: absolute paths (files or directories) or .gitignore-style globs relative to the workspace (e.g. "src/**/*.ts").'),
+    sources: z
+        .array(z.string())
+        .optional()
+        .describe('Only include diagnostics from these sources, e.g. ["ts", "eslint"] (case-insensitive).'),
+    contextLines: z
+        .number()
+        .int()
+        .min(0)
+        .max(5)
+        .default(0)
+        .describe('Number of source lines to include around each problem (default: 0).'),
+    format: z
+        .enum(['json', 'text'])
+        .default('json')
+        .describe("Output format: 'json' (structured) or 'text' (compact, one line per problem)."),
+    waitForDiagnostics: z
+        .boolean()
+        .default(false)
+        .describe('Wait until the diagnostics of the checked files stop changing before reading them, e.g. right after an edit (default: false).'),
+    timeoutMs: z
+        .number()
+        .int()
+        .min(100)
+        .max(60000)
+        .default(10000)
+        .describe('Maximum time to wait with waitForDiagnostics, in milliseconds (default: 10000).'),
+    createBaseline: z
+        .boolean()
+        .default(false)
+        .describe('Save the current diagnostics as a baseline and return its ID, to pass as sinceBaseline later (default: false).'),
+    sinceBaseline: z
+        .string()
+        .optional()
+        .describe('Only report diagnostics that are new since the baseline with this ID.'),
+});
+
+type CodeCheckerParams = z.input<typeof codeCheckerSchema>;
+
+// 保持するベースラインの最大数 (古いものから破棄)
+// Maximum number of baselines kept; the oldest are discarded first.
+const MAX_BASELINES = 20;
+
+// ベースライン ID ごとの診断のスナップショット
+// Diagnostics snapshots by baseline ID.
+const baselines = new Map<string, [Uri, Diagnostic[]][]>();
+
+interface RelatedInformationEntry {
+    file: string;
+    line: number;
+    column: number;
+    message: string;
+}
+
+interface DiagnosticEntry {
+    severity: string;
+    message: string;
+    source: string;
+    // 位置は 1 始まり
+    // Positions are 1-based.
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    code?: string | number;
+    codeUrl?: string;
+    tags?: string[];
+    relatedInformation?: RelatedInformationEntry[];
+    context?: string;
+}
 
 /**
- * Retrieve diagnostics for the active workspace, with filtering by severity level.
+ * Retrieve diagnostics for the active workspace, with filtering by severity level, file and source.
  *
- * @param 'Warning' - Minimum severity level to include (default is Warning).
+ * @param params.severityLevel - Minimum severity level to include (default is Warning).
+ * @param params.files - Absolute paths or workspace-relative globs of the files to check.
+ * @param params.sources - Diagnostic sources to include (e.g. "ts", "eslint").
+ * @param params.contextLines - Number of source lines to include around each problem.
+ * @param params.format - 'json' or 'text'.
+ * @param params.waitForDiagnostics - Wait until the diagnostics of the checked files settle (up to params.timeoutMs).
+ * @param params.createBaseline - Save the current diagnostics and return a baseline ID.
+ * @param params.sinceBaseline - Only report diagnostics that are new since this baseline.
  */
-export const codeCheckerTool = (severityLevel: DiagnosticSeverity = DiagnosticSeverity.Warning) => {
-    // Retrieve diagnostics from all files
-    const diagnosticsByFile = languages.getDiagnostics();
-
-    // Filter diagnostics based on the target severity
-    const aggregated = diagnosticsByFile
-        .filter(([_uri, diags]) => diags.some((diag) => diag.severity <= severityLevel))
-        .map(([uri, diags]) => ({
+export const codeCheckerTool = async (params: CodeCheckerParams = {}) => {
+    const severityLevel = DiagnosticSeverity[params.severityLevel ?? 'Warning'];
+    const matchesFile = createFileMatcher(params.files);
+    const sources = params.sources?.map((source) => source.toLowerCase());
+    const contextLines = params.contextLines ?? 0;
+    const notes: string[] = [];
+
+    const baseline = params.sinceBaseline ? baselines.get(params.sinceBaseline) : undefined;
+    if (params.sinceBaseline && !baseline) {
+        return {
+            content: [{ type: 'text', text: `Unknown baseline "${params.sinceBaseline}". Create one with createBaseline: true.` }],
+            isError: true,
+        };
+    }
+
+    if (params.waitForDiagnostics) {
+        const timeoutMs = params.timeoutMs ?? 10000;
+        // 言語サーバーは開いているファイルだけをチェックすることが多いため、指定されたファイルを開いておく
+        // Language servers often check only open files, so open the files given by path.
+        await openFiles(params.files);
+        const settled = await waitForDiagnosticsToSettle((uri) => matchesFile(uri.fsPath), DIAGNOSTICS_SETTLE_MS, timeoutMs);
+        if (!settled) {
+            notes.push(`Diagnostics were still changing after ${timeoutMs}ms; the results may be incomplete.`);
+        }
+    }
+
+    // Retrieve diagnostics from all files (only the new ones when a baseline is given)
+    const currentDiagnostics = languages.getDiagnostics();
+    const diagnosticsByFile = baseline ? getNewDiagnostics(baseline, currentDiagnostics) : currentDiagnostics;
+
+    if (params.createBaseline) {
+        const id = randomUUID();
+        baselines.set(id, currentDiagnostics);
+        if (baselines.size > MAX_BASELINES) {
+            baselines.delete(baselines.keys().next().value!);
+        }
+        notes.push(`Baseline ID: ${id} (pass it as sinceBaseline to report only diagnostics that are new since now)`);
+    }
+
+    // Filter diagnostics based on the target severity, files and sources
+    const aggregated: { file: string; diagnostics: DiagnosticEntry[] }[] = [];
+    for (const [uri, diags] of diagnosticsByFile) {
+        if (!matchesFile(uri.fsPath)) {
+            continue;
+        }
+        const filtered = diags.filter((diag) =>
+            diag.severity <= severityLevel
+            && (!sources || sources.includes((diag.source ?? '').toLowerCase())));
+        if (filtered.length === 0) {
+            continue;
+        }
+
+        const lines = contextLines > 0 ? await readSourceLines(uri) : undefined;
+        aggregated.push({
             file: uri.fsPath,
-            diagnostics: diags
-                .filter((diag) => diag.severity <= severityLevel)
-                .map((diag) => ({
-                    severity: DiagnosticSeverity[diag.severity],
-                    message: diag.message,
-                    source: diag.source || '',
-                })),
-        }));
+            diagnostics: filtered.map((diag) => toDiagnosticEntry(diag, lines, contextLines)),
+        });
+    }
 
+    let text: string;
     if (aggregated.length === 0) {
         // If no diagnostics found, return an empty result
-        return { content: [{ type: 'text', text: 'No issues found.' }], isError: false };
+        text = baseline ? 'No new issues found since the baseline.' : 'No issues found.';
+    } else if (params.format === 'text') {
+        text = formatAsText(aggregated);
+    } else {
+        // Otherwise, return the aggregated diagnostics as formatted JSON
+        text = JSON.stringify(aggregated, null, 2);
     }
 
-    // Otherwise, return the aggregated diagnostics as formatted JSON
-    return { content: [{ type: 'text', text: JSON.stringify(aggregated, null, 2) }], isError: false };
+    // 補足情報は結果本文 (JSON) を壊さないよう別のコンテンツとして返す
+    // Notes are returned as separate content items so the main result (JSON) stays parseable.
+    return {
+        content: [text, ...notes].map((item) => ({ type: 'text', text: item })),
+        isError: false,
+    };
 };
+
+async function openFiles(patterns: string[] | undefined): Promise<void> {
+    for (const pattern of patterns ?? []) {
+        if (!path.isAbsolute(pattern)) {
+            continue;
+        }
+        try {
+            await workspace.openTextDocument(Uri.file(pattern));
+        } catch {
+            // ディレクトリや存在しないファイルは無視する
+            // Ignore directories and missing files.
+        }
+    }
+}
+
+function toDiagnosticEntry(diag: Diagnostic, lines: string[] | undefined, contextLines: number): DiagnosticEntry {
+    const entry: DiagnosticEntry = {
+        severity: DiagnosticSeverity[diag.severity],
+        message: diag.message,
+        source: diag.source || '',
+        line: diag.range.start.line + 1,
+        column: diag.range.start.character + 1,
+        endLine: diag.range.end.line + 1,
+        endColumn: diag.range.end.character + 1,
+    };
+
+    // code は文字列・数値、またはドキュメント URL 付きの { value, target }
+    // The code is a string, a number, or { value, target } with a documentation URL.
+    if (diag.code !== undefined) {
+        if (typeof diag.code === 'object') {
+            entry.code = diag.code.value;
+            entry.codeUrl = diag.code.target.toString();
+        } else {
+            entry.code = diag.code;
+        }
+    }
+    if (diag.tags && diag.tags.length > 0) {
+        entry.tags = diag.tags.map((tag) => DiagnosticTag[tag]);
+    }
+    if (diag.relatedInformation && diag.relatedInformation.length > 0) {
+        entry.relatedInformation = diag.relatedInformation.map((info) => ({
+            file: info.location.uri.fsPath,
+            line: info.location.range.start.line + 1,
+            column: info.location.range.start.character + 1,
+            message: info.message,
+        }));
+    }
+    if (lines) {
+        entry.context = formatSourceLines(lines, diag.range, contextLines);
+    }
+    return entry;
+}
+
+// 絶対パスはそのファイル・ディレクトリ配下に、それ以外はワークスペースからの相対パスに対する glob として一致させる
+// Absolute paths match the file or anything under the directory; other patterns are globs against the workspace-relative path.
+function createFileMatcher(patterns: string[] | undefined): (filePath: string) => boolean {
+    if (!patterns || patterns.length === 0) {
+        return () => true;
+    }
+
+    const absolutePaths = patterns.filter((pattern) => path.isAbsolute(pattern)).map((pattern) => path.normalize(pattern));
+    const globs = patterns.filter((pattern) => !path.isAbsolute(pattern));
+    const matcher = ignore.default().add(globs);
+    const folders = workspace.workspaceFolders?.map((folder) => folder.uri.fsPath) ?? [];
+
+    return (filePath) => {
+        if (absolutePaths.some((absolutePath) => filePath === absolutePath || filePath.startsWith(absolutePath + path.sep))) {
+            return true;
+        }
+        return globs.length > 0 && folders.some((folder) => {
+            const relativePath = path.relative(folder, filePath);
+            return relativePath !== ''
+                && !relativePath.startsWith('..')
+                && !path.isAbsolute(relativePath)
+                && matcher.ignores(toPosixPath(relativePath));
+        });
+    };
+}
+
+function displayPath(filePath: string): string {
+    const folder = workspace.getWorkspaceFolder(Uri.file(filePath));
+    return folder ? toPosixPath(path.relative(folder.uri.fsPath, filePath)) : filePath;
+}
+
+// diagnosticsToProblemsString と同様の 1 問題 1 行のテキスト形式
+// Compact one-line-per-problem text, similar to diagnosticsToProblemsString.
+function formatAsText(aggregated: { file: string; diagnostics: DiagnosticEntry[] }[]): string {
+    const blocks = aggregated.map(({ file, diagnostics }) => {
+        const lines = [displayPath(file)];
+        for (const diag of diagnostics) {
+            const label = [diag.source, diag.severity, diag.code].filter((part) => part !== undefined && part !== '').join(' ');
+            const tags = diag.tags ? ` (${diag.tags.join(', ')})` : '';
+            const url = diag.codeUrl ? ` <${diag.codeUrl}>` : '';
+            lines.push(`- [${label}] ${diag.line}:${diag.column} ${diag.message}${tags}${url}`);
+            for (const info of diag.relatedInformation ?? []) {
+                lines.push(`    related: ${displayPath(info.file)}:${info.line}:${info.column} ${info.message}`);
+            }
+            if (diag.context) {
+                lines.push(diag.context.split('\n').map((line) => `  ${line}`).join('\n'));
+            }
+        }
+        return lines.join('\n');
+    });
+    return blocks.join('\n\n');
+}
@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import { z } from 'zod';
+import { formatLocation, formatSourceLines, readSourceLines, resolveSourcePosition } from '../utils/source_location';
+import { focusEditorTool } from './focus_editor';
+import { resolvePath } from './list_directory';
+
+// 操作ごとに呼び出す VSCode のプロバイダーコマンド
+// VSCode provider command invoked for each action.
+const NAVIGATION_COMMANDS = {
+  definition: 'vscode.executeDefinitionProvider',
+  references: 'vscode.executeReferenceProvider',
+  implementation: 'vscode.executeImplementationProvider',
+  type_definition: 'vscode.executeTypeDefinitionProvider',
+} as const;
+
+const NAVIGATION_LABELS = {
+  definition: 'definition',
+  references: 'reference',
+  implementation: 'implementation',
+  type_definition: 'type definition',
+} as const;
+
+export const codeNavigationSchema = z.object({
+  path: z.string().describe('File containing the symbol (absolute or relative to the first workspace folder)'),
+  action: z.enum(['definition', 'references', 'implementation', 'type_definition']).describe('What to look up for the symbol at the position'),
+  line: z.number().int().min(1).optional().describe('1-based line of the symbol. Required unless symbol is given.'),
+  column: z.number().int().min(1).optional().describe('1-based column of the symbol. Defaults to the symbol on the line, or the first non-blank character.'),
+  symbol: z.string().optional().describe('Symbol name to navigate from. Without line, its declaration in the file (or first occurrence) is used.'),
+  context_lines: z.number().int().min(0).max(10).optional().default(1).describe('Number of source lines to show around each result (default: 1)'),
+  limit: z.number().int().min(1).max(1000).optional().default(100).describe('Maximum number of locations to return (default: 100, max: 1000)'),
+  reveal: z.boolean().optional().default(false).describe('Open the first result in the editor and select it (default: false)'),
+});
+
+type CodeNavigationParams = z.infer<typeof codeNavigationSchema>;
+
+interface CodeNavigationResult {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * 指定位置のシンボルの定義・参照・実装・型定義を検索する
+ * Find the definition, references, implementations or type definition of the symbol at a position.
+ * 各位置は 1 始まりの file:line:column と前後のソース行付きで返します。
+ * Every location is returned as a 1-based file:line:column with the surrounding source lines.
+ */
+export async function codeNavigationTool(params: CodeNavigationParams): Promise<CodeNavigationResult> {
+  try {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(resolvePath(params.path)));
+    const position = await resolveSourcePosition(document, params);
+    const origin = formatLocation(document.uri, position);
+
+    const results = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[] | undefined>(
+      NAVIGATION_COMMANDS[params.action],
+      document.uri,
+      position,
+    ) ?? [];
+    const locations = sortLocations(results.map(toLocation));
+    const label = NAVIGATION_LABELS[params.action];
+
+    if (locations.length === 0) {
+      return {
+        content: [{ type: 'text', text: `No ${label} found for the symbol at ${origin}` }],
+        isError: false,
+      };
+    }
+
+    const limit = params.limit ?? 100;
+    const page = locations.slice(0, limit);
+    const contextLines = params.context_lines ?? 1;
+    const sourceCache = new Map<string, Promise<string[] | undefined>>();
+    const blocks = await Promise.all(page.map(async (location) => {
+      const key = location.uri.toString();
+      if (!sourceCache.has(key)) {
+        sourceCache.set(key, readSourceLines(location.uri));
+      }
+      const lines = await sourceCache.get(key);
+      const header = formatLocation(location.uri, location.range.start);
+      return lines ? `${header}\n${formatSourceLines(lines, location.range, contextLines)}` : header;
+    }));
+
+    let text = `Found ${locations.length} ${label} location(s) for the symbol at ${origin}`;
+    text += page.length < locations.length ? ` (showing first ${page.length}):\n\n` : ':\n\n';
+    text += blocks.join('\n\n');
+
+    if (params.reveal) {
+      const { uri, range } = page[0];
+      await focusEditorTool({
+        filePath: uri.fsPath,
+        startLine: range.start.line,
+        startColumn: range.start.character,
+        endLine: range.end.line,
+        endColumn: range.end.character,
+      });
+    }
+
+    return { content: [{ type: 'text', text }], isError: false };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error navigating code: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+// LocationLink は対象シンボルの名前部分 (なければ全体) を指す Location に変換する
+// Convert a LocationLink to a Location pointing at the target's name (or whole range when absent).
+function toLocation(result: vscode.Location | vscode.LocationLink): vscode.Location {
+  if ('targetUri' in result) {
+    return new vscode.Location(result.targetUri, result.targetSelectionRange ?? result.targetRange);
+  }
+  return result;
+}
+
+// ファイル・位置順に並べ、重複を除く
+// Sort by file and position, dropping duplicates.
+function sortLocations(locations: vscode.Location[]): vscode.Location[] {
+  const sorted = [...locations].sort((a, b) =>
+    a.uri.fsPath.localeCompare(b.uri.fsPath) || a.range.start.compareTo(b.range.start));
+  return sorted.filter((location, index) => {
+    const previous = sorted[index - 1];
+    return !previous || previous.uri.toString() !== location.uri.toString() || !previous.range.isEqual(location.range);
+  });
+}
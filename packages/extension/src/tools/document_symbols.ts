@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { z } from 'zod';
+import { findDocumentSymbols, getDocumentSymbols } from '../utils/source_location';
+import { resolvePath } from './list_directory';
+
+export const documentSymbolsSchema = z.object({
+  path: z.string().describe('File to outline (absolute or relative to the first workspace folder)'),
+  top_level_only: z.boolean().optional().default(false).describe('Only return top-level symbols, without their children (default: false)'),
+  name: z.string().optional().describe('Only return symbols with this name, with their children. Use dots for enclosing symbols (e.g. "MyClass.method").'),
+});
+
+type DocumentSymbolsParams = z.infer<typeof documentSymbolsSchema>;
+
+interface DocumentSymbolsResult {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * ファイルのシンボルツリー (アウトライン) を返す
+ * Return the symbol tree (outline) of a file.
+ * ファイル全体を読まずに関数やクラスの位置を把握するために使用します。
+ * Used to find functions and classes without reading the whole file.
+ */
+export async function documentSymbolsTool(params: DocumentSymbolsParams): Promise<DocumentSymbolsResult> {
+  try {
+    const uri = vscode.Uri.file(resolvePath(params.path));
+    // 言語サーバーがファイルを解析するよう、事前にドキュメントを開いておく
+    // Open the document first so the language server analyzes the file.
+    await vscode.workspace.openTextDocument(uri);
+    const symbols = await getDocumentSymbols(uri);
+
+    if (symbols.length === 0) {
+      return {
+        content: [{ type: 'text', text: `No symbols found in ${uri.fsPath}. A language extension that provides document symbols may be required.` }],
+        isError: false,
+      };
+    }
+
+    const lines: string[] = [];
+    if (params.name) {
+      const matches = findDocumentSymbols(symbols, params.name);
+      if (matches.length === 0) {
+        return {
+          content: [{ type: 'text', text: `No symbols named "${params.name}" found in ${uri.fsPath}` }],
+          isError: false,
+        };
+      }
+      lines.push(`Symbols named "${params.name}" in ${uri.fsPath}:`, '');
+      for (const { symbol, ancestors } of matches) {
+        if (ancestors.length > 0) {
+          lines.push(`In ${ancestors.join(' > ')}:`);
+        }
+        appendSymbol(lines, symbol, 0, !params.top_level_only);
+      }
+    } else {
+      lines.push(`Symbols in ${uri.fsPath}:`, '');
+      for (const symbol of sortSymbols(symbols)) {
+        appendSymbol(lines, symbol, 0, !params.top_level_only);
+      }
+    }
+
+    return { content: [{ type: 'text', text: lines.join('\n') }], isError: false };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error getting document symbols: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+// 各シンボルを `種類 名前 詳細 (行範囲)` の形式で、階層ごとにインデントして出力する (行番号は 1 始まり)
+// Write each symbol as `Kind name detail (line range)`, indented per level (1-based line numbers).
+function appendSymbol(lines: string[], symbol: vscode.DocumentSymbol, depth: number, includeChildren: boolean): void {
+  const kind = vscode.SymbolKind[symbol.kind] ?? 'Unknown';
+  const start = symbol.range.start.line + 1;
+  const end = symbol.range.end.line + 1;
+  const detail = symbol.detail ? ` ${symbol.detail}` : '';
+  lines.push(`${'  '.repeat(depth)}${kind} ${symbol.name}${detail} (${start === end ? `line ${start}` : `lines ${start}-${end}`})`);
+
+  if (includeChildren) {
+    for (const child of sortSymbols(symbol.children ?? [])) {
+      appendSymbol(lines, child, depth + 1, includeChildren);
+    }
+  }
+}
+
+function sortSymbols(symbols: vscode.DocumentSymbol[]): vscode.DocumentSymbol[] {
+  return [...symbols].sort((a, b) => a.range.start.compareTo(b.range.start));
+}
@@ -0,0 +1,152 @@
+import * as ignore from 'ignore';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { z } from 'zod';
+import { loadGitignorePatterns, resolvePath } from './list_directory';
+
+// findFiles で走査する最大件数 (.gitignore による除外前)
+// Maximum number of files scanned through findFiles (before .gitignore filtering).
+const MAX_SCANNED_FILES = 20000;
+
+export const findFilesSchema = z.object({
+  pattern: z.string().describe('Glob pattern of files to find, relative to each workspace folder (e.g. "**/*.ts", "src/**/index.*")'),
+  exclude: z.string().optional().describe('Additional glob pattern of files to exclude (e.g. "**/*.test.ts")'),
+  path: z.string().optional().describe('Restrict the search to this directory (absolute or relative to the first workspace folder). Defaults to all workspace folders.'),
+  respect_gitignore: z.boolean().optional().default(true).describe('Skip files ignored by .gitignore (default: true)'),
+  use_exclude_settings: z.boolean().optional().default(true).describe('Apply the files.exclude and search.exclude settings (default: true)'),
+  offset: z.number().int().min(0).optional().default(0).describe('Number of results to skip, for pagination (default: 0)'),
+  limit: z.number().int().min(1).max(1000).optional().default(100).describe('Maximum number of results to return (default: 100, max: 1000)'),
+});
+
+type FindFilesParams = z.infer<typeof findFilesSchema>;
+
+interface FindFilesResult {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * ワークスペース全体から glob に一致するファイルを検索する
+ * Find files matching a glob across the workspace.
+ * マルチルートワークスペースでは各フォルダを検索し、サイズと更新日時付きでページ単位に返します。
+ * Every folder of a multi-root workspace is searched, and results are paginated with sizes and modification times.
+ */
+export async function findFilesTool(params: FindFilesParams): Promise<FindFilesResult> {
+  try {
+    const roots = getSearchRoots(params.path);
+    if (roots.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No workspace folder is open. Specify a path to search in.' }],
+        isError: true,
+      };
+    }
+
+    const exclude = buildExcludePattern(params.exclude, params.use_exclude_settings ?? true);
+    const files: string[] = [];
+    let truncated = false;
+
+    for (const root of roots) {
+      const uris = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(root, params.pattern),
+        exclude,
+        MAX_SCANNED_FILES,
+      );
+      truncated ||= uris.length >= MAX_SCANNED_FILES;
+
+      let paths = uris.map((uri) => uri.fsPath);
+      if (params.respect_gitignore ?? true) {
+        const ig = ignore.default().add(await loadGitignorePatterns(root.fsPath));
+        paths = paths.filter((filePath) => !ig.ignores(path.relative(root.fsPath, filePath).split(path.sep).join('/')));
+      }
+      files.push(...paths);
+    }
+
+    const uniqueFiles = [...new Set(files)].sort((a, b) => a.localeCompare(b));
+    const offset = params.offset ?? 0;
+    const limit = params.limit ?? 100;
+    const page = uniqueFiles.slice(offset, offset + limit);
+
+    if (page.length === 0) {
+      const text = uniqueFiles.length === 0
+        ? `No files found matching "${params.pattern}"`
+        : `No more results: ${uniqueFiles.length} files match "${params.pattern}" (offset ${offset})`;
+      return { content: [{ type: 'text', text }], isError: false };
+    }
+
+    const lines = await Promise.all(page.map(describeFile));
+    let text = `Found ${uniqueFiles.length}${truncated ? '+' : ''} files matching "${params.pattern}" (showing ${offset + 1}-${offset + page.length}):\n\n`;
+    text += lines.join('\n');
+    if (offset + page.length < uniqueFiles.length) {
+      text += `\n\nMore results available. Call again with offset=${offset + page.length} to see the next page.`;
+    }
+    if (truncated) {
+      text += `\n\nThe search stopped after scanning ${MAX_SCANNED_FILES} files in a folder; narrow the pattern to see everything.`;
+    }
+
+    return { content: [{ type: 'text', text }], isError: false };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      content: [{ type: 'text', text: `Failed to find files: ${errorMessage}` }],
+      isError: true,
+    };
+  }
+}
+
+// 検索対象のルート (指定パス、または全ワークスペースフォルダ)
+// Roots to search: the given path, or every workspace folder.
+function getSearchRoots(dirPath: string | undefined): vscode.Uri[] {
+  if (dirPath) {
+    return [vscode.Uri.file(resolvePath(dirPath))];
+  }
+  return (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri);
+}
+
+// files.exclude と search.exclude で有効になっている glob パターン
+// Glob patterns enabled in the files.exclude and search.exclude settings.
+export function getExcludeSettingPatterns(): string[] {
+  const patterns: string[] = [];
+  for (const section of ['files', 'search']) {
+    const excludes = vscode.workspace.getConfiguration(section).get<Record<string, unknown>>('exclude', {});
+    patterns.push(...Object.entries(excludes).filter(([, enabled]) => enabled === true).map(([pattern]) => pattern));
+  }
+  return patterns;
+}
+
+/**
+ * files.exclude / search.exclude と追加の除外パターンを 1 つの glob にまとめる
+ * Combine files.exclude, search.exclude and the extra exclude pattern into a single glob.
+ * findFiles に除外パターンを渡すと既定の files.exclude が使われなくなるため、ここで明示的に含めます。
+ * Passing an exclude to findFiles disables the default files.exclude, so it is included explicitly here.
+ */
+function buildExcludePattern(extraExclude: string | undefined, useExcludeSettings: boolean): string | null {
+  const patterns = useExcludeSettings ? getExcludeSettingPatterns() : [];
+  if (extraExclude) {
+    patterns.push(extraExclude);
+  }
+
+  if (patterns.length === 0) {
+    return null;
+  }
+  return patterns.length === 1 ? patterns[0] : `{${patterns.join(',')}}`;
+}
+
+async function describeFile(filePath: string): Promise<string> {
+  try {
+    const stat = await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+    return `${filePath} (${formatSize(stat.size)}, modified ${new Date(stat.mtime).toISOString()})`;
+  } catch {
+    return filePath;
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { z } from 'zod';
+import { reviewFileChanges, workspaceEditToFileChanges } from '../utils/multi_file_review';
+import { getLineRange } from '../utils/source_location';
+import { resolvePath } from './list_directory';
+
+export const formatDocumentSchema = z.object({
+  path: z.string().describe('File to format (absolute or relative to the first workspace folder)'),
+  line: z.number().int().min(1).optional().describe('1-based first line to format. Defaults to the whole file.'),
+  end_line: z.number().int().min(1).optional().describe('1-based last line to format (default: line)'),
+  skip_dialog: z.boolean().optional().describe('Skip confirmation dialog (for testing only)'),
+});
+
+type FormatDocumentParams = z.infer<typeof formatDocumentSchema>;
+
+interface FormatDocumentResult {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * ワークスペースに設定されたフォーマッターでファイル全体または行範囲を整形する
+ * Format a whole file or a line range with the formatter configured for the workspace.
+ * 整形結果は差分で確認してから保存します。
+ * The formatted result is reviewed as a diff before it is saved.
+ */
+export async function formatDocumentTool(params: FormatDocumentParams): Promise<FormatDocumentResult> {
+  try {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(resolvePath(params.path)));
+    const options = getFormattingOptions(document);
+
+    const textEdits = params.line === undefined
+      ? await vscode.commands.executeCommand<vscode.TextEdit[] | undefined>(
+        'vscode.executeFormatDocumentProvider',
+        document.uri,
+        options,
+      )
+      : await vscode.commands.executeCommand<vscode.TextEdit[] | undefined>(
+        'vscode.executeFormatRangeProvider',
+        document.uri,
+        getLineRange(document, params.line, params.end_line),
+        options,
+      );
+    if (!textEdits) {
+      return {
+        content: [{ type: 'text', text: `No formatter is available for ${document.uri.fsPath} (language: ${document.languageId})` }],
+        isError: true,
+      };
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.set(document.uri, textEdits);
+    const changes = await workspaceEditToFileChanges(edit);
+    if (changes.length === 0) {
+      return {
+        content: [{ type: 'text', text: `${document.uri.fsPath} is already formatted` }],
+        isError: false,
+      };
+    }
+
+    const review = await reviewFileChanges(changes, `Apply formatting to ${document.uri.fsPath}?`, params.skip_dialog);
+    if (!review.approved) {
+      return {
+        content: [{
+          type: 'text',
+          text: review.feedback
+            ? `Formatting was rejected by the user with feedback: ${review.feedback}`
+            : 'Formatting was rejected by the user',
+        }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: 'text', text: `Formatted ${document.uri.fsPath} (${changes[0].editCount} edit${changes[0].editCount === 1 ? '' : 's'})${review.newProblemsMessage}` }],
+      isError: false,
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error formatting document: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+// エディタで開かれていればその (インデント検出後の) 設定を、なければ言語ごとの editor 設定を使う
+// Use the options of an open editor (after indentation detection) when there is one, otherwise the language's editor settings.
+function getFormattingOptions(document: vscode.TextDocument): vscode.FormattingOptions {
+  const editor = vscode.window.visibleTextEditors.find((visible) => visible.document.uri.toString() === document.uri.toString());
+  if (editor && typeof editor.options.tabSize === 'number' && typeof editor.options.insertSpaces === 'boolean') {
+    return { tabSize: editor.options.tabSize, insertSpaces: editor.options.insertSpaces };
+  }
+
+  const config = vscode.workspace.getConfiguration('editor', document);
+  return {
+    tabSize: config.get<number>('tabSize', 4),
+    insertSpaces: config.get<boolean>('insertSpaces', true),
+  };
+}
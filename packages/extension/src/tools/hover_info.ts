@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import { z } from 'zod';
+import { formatLocation, resolveSourcePosition } from '../utils/source_location';
+import { resolvePath } from './list_directory';
+
+export const hoverInfoSchema = z.object({
+  path: z.string().describe('File containing the symbol (absolute or relative to the first workspace folder)'),
+  line: z.number().int().min(1).optional().describe('1-based line of the symbol. Required unless symbol is given.'),
+  column: z.number().int().min(1).optional().describe('1-based column of the symbol. Defaults to the symbol on the line, or the first non-blank character.'),
+  symbol: z.string().optional().describe('Symbol name to inspect. Without line, its declaration in the file (or first occurrence) is used.'),
+  include_signature_help: z.boolean().optional().default(true).describe('Also return signature help when the position is inside a call\'s arguments (default: true)'),
+});
+
+type HoverInfoParams = z.infer<typeof hoverInfoSchema>;
+
+interface HoverInfoResult {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * 指定位置のホバー情報とシグネチャヘルプを言語サーバーから取得する
+ * Get hover information and signature help at a position from the language servers.
+ * 型やドキュメントは言語サーバーが返した Markdown / プレーンテキストのまま返します。
+ * Types and documentation are returned as the Markdown or plain text produced by the language server.
+ */
+export async function hoverInfoTool(params: HoverInfoParams): Promise<HoverInfoResult> {
+  try {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(resolvePath(params.path)));
+    const position = await resolveSourcePosition(document, params);
+    const origin = formatLocation(document.uri, position);
+    const sections: string[] = [];
+
+    const hovers = await vscode.commands.executeCommand<vscode.Hover[] | undefined>(
+      'vscode.executeHoverProvider',
+      document.uri,
+      position,
+    ) ?? [];
+    const hoverText = hovers
+      .flatMap((hover) => hover.contents.map(markedStringToText))
+      .filter((text) => text.trim().length > 0)
+      .join('\n\n---\n\n');
+    if (hoverText) {
+      sections.push(`Hover at ${origin}:\n\n${hoverText}`);
+    }
+
+    if (params.include_signature_help ?? true) {
+      const signatureHelp = await vscode.commands.executeCommand<vscode.SignatureHelp | undefined>(
+        'vscode.executeSignatureHelpProvider',
+        document.uri,
+        position,
+      );
+      if (signatureHelp && signatureHelp.signatures.length > 0) {
+        sections.push(`Signature help at ${origin}:\n\n${formatSignatureHelp(signatureHelp)}`);
+      }
+    }
+
+    if (sections.length === 0) {
+      return {
+        content: [{ type: 'text', text: `No hover information or signature help available at ${origin}` }],
+        isError: false,
+      };
+    }
+
+    return { content: [{ type: 'text', text: sections.join('\n\n') }], isError: false };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error getting hover information: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+// MarkedString の { language, value } 形式はコードブロックに変換する
+// The { language, value } form of MarkedString is converted to a code block.
+function markedStringToText(content: vscode.MarkdownString | vscode.MarkedString): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if ('language' in content) {
+    return `\`\`\`${content.language}\n${content.value}\n\`\`\``;
+  }
+  return content.value;
+}
+
+function documentationToText(documentation: string | vscode.MarkdownString | undefined): string {
+  if (!documentation) {
+    return '';
+  }
+  return typeof documentation === 'string' ? documentation : documentation.value;
+}
+
+// アクティブなシグネチャ・引数には `(active)` を付ける
+// The active signature and parameter are marked with `(active)`.
+function formatSignatureHelp(signatureHelp: vscode.SignatureHelp): string {
+  return signatureHelp.signatures.map((signature, signatureIndex) => {
+    const isActiveSignature = signatureIndex === signatureHelp.activeSignature;
+    const lines = [`${signature.label}${isActiveSignature ? ' (active)' : ''}`];
+
+    const documentation = documentationToText(signature.documentation);
+    if (documentation) {
+      lines.push(documentation);
+    }
+
+    const activeParameter = signature.activeParameter ?? signatureHelp.activeParameter;
+    signature.parameters.forEach((parameter, parameterIndex) => {
+      const label = typeof parameter.label === 'string'
+        ? parameter.label
+        : signature.label.slice(parameter.label[0], parameter.label[1]);
+      const isActiveParameter = isActiveSignature && parameterIndex === activeParameter;
+      const parameterDocumentation = documentationToText(parameter.documentation);
+      lines.push(`- ${label}${isActiveParameter ? ' (active)' : ''}${parameterDocumentation ? `: ${parameterDocumentation}` : ''}`);
+    });
+    return lines.join('\n');
+  }).join('\n\n');
+}
@@ -100,7 +100,7 @@ export async function listDirectoryTool(params: ListDirectoryParams): Promise<Li
  * @param dirPath 解決するパス (path to resolve)
  * @returns 絶対パス (absolute path)
  */
-function resolvePath(dirPath: string): string {
+export function resolvePath(dirPath: string): string {
   if (path.isAbsolute(dirPath)) {
     return dirPath;
   }
@@ -119,7 +119,7 @@ function resolvePath(dirPath: string): string {
  * @param dirPath ディレクトリパス (directory path)
  * @returns .gitignore パターンの配列 (array of .gitignore patterns)
  */
-async function loadGitignorePatterns(dirPath: string): Promise<string[]> {
+export async function loadGitignorePatterns(dirPath: string): Promise<string[]> {
   const patterns: string[] = [];
 
   try {
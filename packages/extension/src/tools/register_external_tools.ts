@@ -1,4 +1,5 @@
 import { Tool } from '@modelcontextprotocol/sdk/types';
+import { createHash } from 'node:crypto';
 import * as vscode from 'vscode';
 import { ToolRegistry } from '../mcp-server';
 
@@ -39,6 +40,23 @@ const notAllowedTools = [
   'copilot_editFile',
 ];
 
+// vscode.lm にはツールの追加・削除イベントがないため、この間隔でポーリングする
+// vscode.lm has no tool add/remove event, so poll at this interval.
+const EXTERNAL_TOOLS_POLL_INTERVAL_MS = 10000;
+
+// 公開可能な外部ツールの一覧
+// External tools that can be exposed.
+function getAllowedExternalTools(): vscode.LanguageModelToolInformation[] {
+  if (!vscode.lm || !vscode.lm.tools) {
+    return [];
+  }
+  return vscode.lm.tools.filter((tool) =>
+    !notAllowedTools.includes(tool.name)
+    && tool.inputSchema
+    && 'type' in tool.inputSchema
+    && tool.inputSchema.type === 'object');
+}
+
 // Function to register all allowed external tools to the MCP server
 export function registerExternalTools(mcpServer: ToolRegistry) {
   if (!vscode.lm || !vscode.lm.tools) {
@@ -49,7 +67,7 @@ export function registerExternalTools(mcpServer: ToolRegistry) {
   // ホワイトリストに含まれているツールだけを登録
   // Register only tools included in the whitelist.
   for (const tool of vscode.lm.tools) {
-    if (!notAllowedTools.includes(tool.name)) {
+    if (!notAllowedTools.includes(tool.name) && !mcpServer.hasTool(tool.name)) {
       if (!tool.inputSchema || !('type' in tool.inputSchema) || tool.inputSchema.type !== 'object') {
         console.error(`Tool ${tool.name} has no input schema or invalid type`);
         continue
@@ -59,6 +77,66 @@ export function registerExternalTools(mcpServer: ToolRegistry) {
   }
 }
 
+// 現在の vscode.lm.tools に合わせて外部ツールを追加・削除する
+// Add and remove external tools so the registry matches the current vscode.lm.tools.
+export function syncExternalTools(mcpServer: ToolRegistry) {
+  const available = new Set(getAllowedExternalTools().map((tool) => tool.name));
+  for (const name of mcpServer.externalToolNames()) {
+    if (!available.has(name)) {
+      mcpServer.removeTool(name);
+    }
+  }
+  registerExternalTools(mcpServer);
+}
+
+/**
+ * vscode.lm.tools の変更を検知する
+ * Detects changes to vscode.lm.tools.
+ * チャットモデルや拡張機能の変更イベントに加え、定期的なポーリングでも確認します。
+ * Checks on chat model and extension change events, and also polls periodically.
+ */
+export class ExternalToolWatcher implements vscode.Disposable {
+  private signature = externalToolsSignature();
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly pollTimer: NodeJS.Timeout;
+
+  constructor(
+    private readonly outputChannel: vscode.OutputChannel,
+    pollIntervalMs = EXTERNAL_TOOLS_POLL_INTERVAL_MS,
+  ) {
+    if (vscode.lm?.onDidChangeChatModels) {
+      this.disposables.push(vscode.lm.onDidChangeChatModels(() => this.check()));
+    }
+    this.disposables.push(vscode.extensions.onDidChange(() => this.check()));
+    this.pollTimer = setInterval(() => this.check(), pollIntervalMs);
+  }
+
+  check(): void {
+    const signature = externalToolsSignature();
+    if (signature === this.signature) {
+      return;
+    }
+    this.signature = signature;
+    this.outputChannel.appendLine('External (vscode.lm) tools changed.');
+    this._onDidChange.fire();
+  }
+
+  dispose(): void {
+    clearInterval(this.pollTimer);
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this._onDidChange.dispose();
+  }
+}
+
+function externalToolsSignature(): string {
+  const names = getAllowedExternalTools().map((tool) => tool.name).sort();
+  return createHash('sha256').update(JSON.stringify(names)).digest('hex');
+}
+
 // 各ツールを登録する関数
 // Function to register each tool.
 function registerTool(mcpServer: ToolRegistry, tool: vscode.LanguageModelToolInformation) {
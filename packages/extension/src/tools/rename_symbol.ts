@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import { z } from 'zod';
+import { reviewFileChanges, workspaceEditToFileChanges } from '../utils/multi_file_review';
+import { formatLocation, resolveSourcePosition } from '../utils/source_location';
+import { resolvePath } from './list_directory';
+
+export const renameSymbolSchema = z.object({
+  path: z.string().describe('File containing the symbol (absolute or relative to the first workspace folder)'),
+  new_name: z.string().min(1).describe('New name for the symbol'),
+  line: z.number().int().min(1).optional().describe('1-based line of the symbol. Required unless symbol is given.'),
+  column: z.number().int().min(1).optional().describe('1-based column of the symbol. Defaults to the symbol on the line, or the first non-blank character.'),
+  symbol: z.string().optional().describe('Current name of the symbol. Without line, its declaration in the file (or first occurrence) is used.'),
+  skip_dialog: z.boolean().optional().describe('Skip confirmation dialog (for testing only)'),
+});
+
+type RenameSymbolParams = z.infer<typeof renameSymbolSchema>;
+
+interface RenameSymbolResult {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * 言語サーバーのリネーム機能でシンボルの名前を変更する
+ * Rename a symbol with the language server's rename support.
+ * 影響を受ける全ファイルの差分を表示し、1 回の承認でまとめて保存します。
+ * Diffs of every affected file are shown and saved together after a single approval.
+ */
+export async function renameSymbolTool(params: RenameSymbolParams): Promise<RenameSymbolResult> {
+  try {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(resolvePath(params.path)));
+    const position = await resolveSourcePosition(document, params);
+    const origin = formatLocation(document.uri, position);
+    const wordRange = document.getWordRangeAtPosition(position);
+    const oldName = wordRange ? document.getText(wordRange) : params.symbol ?? origin;
+
+    // リネームできない位置の場合、プロバイダーが理由付きのエラーを投げる
+    // The provider throws an error with the reason when the position cannot be renamed.
+    const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit | undefined>(
+      'vscode.executeDocumentRenameProvider',
+      document.uri,
+      position,
+      params.new_name,
+    );
+    const changes = edit ? await workspaceEditToFileChanges(edit) : [];
+    if (changes.length === 0) {
+      return {
+        content: [{ type: 'text', text: `No rename edits were returned for the symbol at ${origin}. A language extension that supports rename may be required.` }],
+        isError: true,
+      };
+    }
+
+    const review = await reviewFileChanges(
+      changes,
+      `Rename "${oldName}" to "${params.new_name}" in ${changes.length} file${changes.length === 1 ? '' : 's'}?`,
+      params.skip_dialog,
+    );
+    if (!review.approved) {
+      return {
+        content: [{
+          type: 'text',
+          text: review.feedback
+            ? `Rename was rejected by the user with feedback: ${review.feedback}`
+            : 'Rename was rejected by the user',
+        }],
+        isError: true,
+      };
+    }
+
+    const summary = changes.map((change) => `${change.filePath}: ${change.editCount} edit${change.editCount === 1 ? '' : 's'}`);
+    return {
+      content: [{
+        type: 'text',
+        text: `Renamed "${oldName}" to "${params.new_name}" in ${changes.length} file${changes.length === 1 ? '' : 's'}:\n${summary.join('\n')}${review.newProblemsMessage}`,
+      }],
+      isError: false,
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error renaming symbol: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true,
+    };
+  }
+}
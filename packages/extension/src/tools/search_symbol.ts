@@ -1,94 +1,142 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { z } from 'zod';
+import { formatLocation, readSourceLines } from '../utils/source_location';
 import { focusEditorTool } from './focus_editor';
+import { resolvePath } from './list_directory';
 
-export async function searchSymbolTool({
-    query,
-    useDefinition = true,
-    maxResults = 50,
-    openFile = false, // Optional: Open files after search
-}: {
-    query: string;
-    useDefinition?: boolean;
-    maxResults?: number;
-    openFile?: boolean;
-}) {
-    const results: {
-        definition: {
-            file: string;
-            startLine: number;
-            startColumn: number;
-            endLine: number;
-            endColumn: number;
-            snippet: string;
-        } | null;
-        globalSearch: Array<{ file: string; line: number; snippet: string }>;
-    } = { definition: null, globalSearch: [] };
-
-    // Try "Go to Definition"
-    if (useDefinition && vscode.window.activeTextEditor) {
-        const editor = vscode.window.activeTextEditor;
-        const position = editor.selection.active;
-        const uri = editor.document.uri;
-
-        const definitionResults = await vscode.commands.executeCommand<vscode.Location[]>(
-            'vscode.executeDefinitionProvider',
-            uri,
-            position,
+// vscode.SymbolKind の名前 (kinds フィルタで使用)
+// Names of vscode.SymbolKind members, used by the kinds filter.
+export const SYMBOL_KIND_NAMES = [
+    'File', 'Module', 'Namespace', 'Package', 'Class', 'Method', 'Property', 'Field', 'Constructor',
+    'Enum', 'Interface', 'Function', 'Variable', 'Constant', 'String', 'Number', 'Boolean', 'Array',
+    'Object', 'Key', 'Null', 'EnumMember', 'Struct', 'Event', 'Operator', 'TypeParameter',
+] as const;
+
+export type SymbolKindName = typeof SYMBOL_KIND_NAMES[number];
+
+export const searchSymbolSchema = z.object({
+    query: z.string().min(1).describe('Symbol name to search for. Language servers usually match it fuzzily (e.g. "getUsr" finds "getUser").'),
+    kinds: z.array(z.enum(SYMBOL_KIND_NAMES)).optional().describe('Only return symbols of these kinds (e.g. ["Class", "Function"])'),
+    exact_match: z.boolean().optional().default(false).describe('Only return symbols whose name is exactly the query, e.g. to find the definition of a known name (default: false)'),
+    path: z.string().optional().describe('Only return symbols in files under this path (absolute or relative to the first workspace folder)'),
+    limit: z.number().int().min(1).max(500).optional().default(50).describe('Maximum number of symbols to return (default: 50, max: 500)'),
+    open_file: z.boolean().optional().default(false).describe('Open the first result in the editor and select the symbol (default: false)'),
+});
+
+type SearchSymbolParams = z.infer<typeof searchSymbolSchema>;
+
+interface SearchSymbolResult {
+    content: { type: 'text'; text: string }[];
+    isError?: boolean;
+    [key: string]: unknown;
+}
+
+/**
+ * ワークスペースシンボルプロバイダーで名前からシンボルを検索する
+ * Search symbols by name through the workspace symbol providers.
+ * 完全一致、前方一致、その他の順に並べ、種類・コンテナ・位置・該当行を返します。
+ * Results are ordered exact matches first, then prefix matches, and include kind, container, location and the source line.
+ */
+export async function searchSymbolTool(params: SearchSymbolParams): Promise<SearchSymbolResult> {
+    try {
+        const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[] | undefined>(
+            'vscode.executeWorkspaceSymbolProvider',
+            params.query,
+        ) ?? [];
+
+        const kinds = params.kinds && params.kinds.length > 0
+            ? new Set(params.kinds.map((kind) => vscode.SymbolKind[kind]))
+            : undefined;
+        const root = params.path ? resolvePath(params.path) : undefined;
+
+        const matches = rankSymbols(
+            symbols.filter((symbol) =>
+                (!kinds || kinds.has(symbol.kind))
+                && (!params.exact_match || symbol.name === params.query)
+                && (!root || isUnderPath(symbol.location.uri.fsPath, root))),
+            params.query,
         );
 
-        if (definitionResults && definitionResults.length > 0) {
-            const def = definitionResults[0];
-            results.definition = {
-                file: def.uri.fsPath,
-                startLine: def.range.start.line,
-                startColumn: def.range.start.character,
-                endLine: def.range.end.line,
-                endColumn: def.range.end.character,
-                snippet: def.range.start.line === def.range.end.line ? editor.document.getText(def.range) : '',
+        if (matches.length === 0) {
+            return {
+                content: [{ type: 'text', text: `No symbols found matching "${params.query}"` }],
+                isError: false,
             };
+        }
+
+        const limit = params.limit ?? 50;
+        const page = matches.slice(0, limit);
+        // 同じファイルのシンボルが多くても、各ファイルは一度だけ読み込む
+        // Read each file only once, even when many symbols share it.
+        const sourceCache = new Map<string, Promise<string[] | undefined>>();
+        const lines = await Promise.all(page.map((symbol) => formatSymbol(symbol, sourceCache)));
+
+        let text = `Found ${matches.length} symbols matching "${params.query}"`;
+        text += page.length < matches.length ? ` (showing first ${page.length}):\n\n` : ':\n\n';
+        text += lines.join('\n\n');
 
-            // Reuse `focusEditorTool` if applicable
-            if (openFile) {
-                await focusEditorTool({
-                    filePath: def.uri.fsPath,
-                    startLine: def.range.start.line,
-                    startColumn: def.range.start.character,
-                    endLine: def.range.end.line,
-                    endColumn: def.range.end.character,
-                });
-            }
+        if (params.open_file) {
+            const { uri, range } = page[0].location;
+            await focusEditorTool({
+                filePath: uri.fsPath,
+                startLine: range.start.line,
+                startColumn: range.start.character,
+                endLine: range.end.line,
+                endColumn: range.end.character,
+            });
         }
+
+        return { content: [{ type: 'text', text }], isError: false };
+    } catch (error) {
+        return {
+            content: [{ type: 'text', text: `Error searching symbols: ${error instanceof Error ? error.message : String(error)}` }],
+            isError: true,
+        };
     }
+}
 
-    // Perform a global text search
-    const globalSearchResults: Array<any> = [];
-    await vscode.commands.executeCommand<{ uri: vscode.Uri; ranges: vscode.Range[]; preview: { text: string } }[]>(
-        'vscode.executeWorkspaceSymbolProvider',
-        query,
-        ({ uri, ranges, preview }: { uri: vscode.Uri; ranges: vscode.Range[]; preview: { text: string } }) => {
-            const match = {
-                file: uri.fsPath,
-                line: ranges[0].start.line,
-                snippet: preview.text.trim(),
-            };
+// 完全一致 > 大文字小文字を無視した一致 > 前方一致 > その他 (同順位ではプロバイダーの順序を保つ)
+// Exact > case-insensitive > prefix > other matches; ties keep the provider's order.
+function rankSymbols(symbols: vscode.SymbolInformation[], query: string): vscode.SymbolInformation[] {
+    const lowerQuery = query.toLowerCase();
+    const rank = (name: string) => {
+        if (name === query) {
+            return 0;
+        }
+        const lowerName = name.toLowerCase();
+        if (lowerName === lowerQuery) {
+            return 1;
+        }
+        return lowerName.startsWith(lowerQuery) ? 2 : 3;
+    };
+    return symbols
+        .map((symbol, index) => ({ symbol, index, rank: rank(symbol.name) }))
+        .sort((a, b) => a.rank - b.rank || a.index - b.index)
+        .map(({ symbol }) => symbol);
+}
+
+function isUnderPath(filePath: string, root: string): boolean {
+    const relative = path.relative(root, filePath);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
 
-            if (globalSearchResults.length < maxResults) {
-                globalSearchResults.push({
-                    file: match.file, // Correct the key to 'file'
-                    line: match.line, // Correct key/logic
-                    snippet: match.snippet, // Correct key/logic
-                });
-            }
-        },
-    );
-
-    results.globalSearch = globalSearchResults;
-
-    // Open the first global search result if requested
-    if (openFile && globalSearchResults.length > 0) {
-        const firstMatch = globalSearchResults[0];
-        await focusEditorTool({ filePath: firstMatch.file, line: firstMatch.line, column: 0 });
+async function formatSymbol(symbol: vscode.SymbolInformation, sourceCache: Map<string, Promise<string[] | undefined>>): Promise<string> {
+    const { uri, range } = symbol.location;
+    const kind = vscode.SymbolKind[symbol.kind] ?? 'Unknown';
+    let text = `${kind} ${symbol.name}`;
+    if (symbol.containerName) {
+        text += ` in ${symbol.containerName}`;
     }
+    text += `\n  ${formatLocation(uri, range.start)}`;
 
-    return results;
+    const key = uri.toString();
+    if (!sourceCache.has(key)) {
+        sourceCache.set(key, readSourceLines(uri));
+    }
+    const snippet = (await sourceCache.get(key))?.[range.start.line]?.trim().slice(0, 200);
+    if (snippet) {
+        text += `\n  > ${snippet}`;
+    }
+    return text;
 }
@@ -0,0 +1,345 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { z } from 'zod';
+import { reviewFileChanges } from '../utils/multi_file_review';
+import { getExcludeSettingPatterns } from './find_files';
+import { resolvePath } from './list_directory';
+
+// 置換モードで一度に変更できる最大ファイル数
+// Maximum number of files a single replace can change.
+const MAX_REPLACE_FILES = 100;
+// 長い行 (minify されたファイルなど) はこの文字数で切り詰める
+// Long lines (e.g. minified files) are truncated to this many characters.
+const MAX_LINE_COLUMNS = 500;
+
+export const searchTextSchema = z.object({
+  query: z.string().min(1).describe('Text or regular expression to search for'),
+  is_regex: z.boolean().optional().default(false).describe('Treat the query as a regular expression (default: false)'),
+  case_sensitive: z.boolean().optional().default(false).describe('Match case (default: false)'),
+  whole_word: z.boolean().optional().default(false).describe('Only match whole words (default: false)'),
+  include: z.array(z.string()).optional().describe('Glob patterns of files to search (e.g. ["**/*.ts"])'),
+  exclude: z.array(z.string()).optional().describe('Glob patterns of files to skip, in addition to files.exclude/search.exclude'),
+  path: z.string().optional().describe('Directory to search (absolute or relative to the first workspace folder). Defaults to all workspace folders.'),
+  context_lines: z.number().int().min(0).max(10).optional().default(0).describe('Number of context lines to show around each match (default: 0)'),
+  max_results: z.number().int().min(1).max(2000).optional().default(200).describe('Maximum number of matching lines to return (default: 200)'),
+  respect_gitignore: z.boolean().optional().default(true).describe('Skip files ignored by .gitignore (default: true)'),
+  replace: z.string().optional()
+    .describe('Replace every match with this text. All edits are shown as diffs and applied after a single approval. With is_regex, $1-style group references (JavaScript syntax) are supported.'),
+  skip_dialog: z.boolean().optional().describe('Skip confirmation dialog (for testing only)'),
+});
+
+type SearchTextParams = z.infer<typeof searchTextSchema>;
+
+interface SearchTextResult {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+interface SearchLine {
+  lineNumber: number;
+  text: string;
+  isMatch: boolean;
+}
+
+interface FileSearchResult {
+  filePath: string;
+  lines: SearchLine[];
+}
+
+interface RipgrepOutput {
+  files: FileSearchResult[];
+  matchCount: number;
+  truncated: boolean;
+}
+
+/**
+ * VS Code 同梱の ripgrep を使ってワークスペースを全文検索する
+ * Full-text search across the workspace using the ripgrep bundled with VS Code.
+ * replace を指定すると、すべての置換を差分表示して 1 回の承認でまとめて適用します。
+ * When replace is given, every edit is shown as a diff and applied after a single approval.
+ */
+export async function searchTextTool(params: SearchTextParams): Promise<SearchTextResult> {
+  try {
+    const roots = params.path
+      ? [resolvePath(params.path)]
+      : (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath);
+    if (roots.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No workspace folder is open. Specify a path to search in.' }],
+        isError: true,
+      };
+    }
+
+    const rgPath = await findRipgrep();
+    if (!rgPath) {
+      return {
+        content: [{ type: 'text', text: `Could not find the ripgrep binary bundled with VS Code under ${vscode.env.appRoot}` }],
+        isError: true,
+      };
+    }
+
+    if (params.replace !== undefined) {
+      return await replaceInFiles(rgPath, roots, params);
+    }
+
+    const args = [...buildRipgrepArgs(params), '--json'];
+    if (params.context_lines) {
+      args.push('--context', String(params.context_lines));
+    }
+    args.push('--', params.query, ...roots);
+
+    const output = await runRipgrepJson(rgPath, args, params.max_results ?? 200);
+    if (output.matchCount === 0) {
+      return { content: [{ type: 'text', text: `No matches found for "${params.query}"` }], isError: false };
+    }
+
+    let text = `Found ${output.matchCount}${output.truncated ? '+' : ''} matching lines in ${output.files.length} files for "${params.query}"`;
+    if (output.truncated) {
+      text += ` (stopped after ${params.max_results ?? 200}; narrow the search or raise max_results)`;
+    }
+    text += ':\n\n' + output.files.map(formatFileResult).join('\n\n');
+    return { content: [{ type: 'text', text }], isError: false };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      content: [{ type: 'text', text: `Failed to search text: ${errorMessage}` }],
+      isError: true,
+    };
+  }
+}
+
+// 一致したファイルの内容を置換し、差分をまとめてレビューしてもらう
+// Replace matches in every matching file and have the diffs reviewed together.
+async function replaceInFiles(rgPath: string, roots: string[], params: SearchTextParams): Promise<SearchTextResult> {
+  const filePaths = await runRipgrepFileList(rgPath, [...buildRipgrepArgs(params), '--files-with-matches', '--', params.query, ...roots]);
+  if (filePaths.length === 0) {
+    return { content: [{ type: 'text', text: `No matches found for "${params.query}"` }], isError: false };
+  }
+  if (filePaths.length > MAX_REPLACE_FILES) {
+    return {
+      content: [{ type: 'text', text: `"${params.query}" matches ${filePaths.length} files; refusing to replace in more than ${MAX_REPLACE_FILES} files at once. Narrow the search with include/path.` }],
+      isError: true,
+    };
+  }
+
+  const regExp = buildSearchRegExp(params);
+  const replacement = params.replace ?? '';
+  const changes: { filePath: string; newContent: string }[] = [];
+  const summary: string[] = [];
+  for (const filePath of filePaths.sort((a, b) => a.localeCompare(b))) {
+    const content = await fs.readFile(filePath, 'utf-8');
+    // ripgrep と同様に一致が行をまたがないよう、改行を残したまま 1 行ずつ置換する
+    // Replace line by line, keeping the line breaks, so that matches never span lines just as with ripgrep.
+    const parts = content.split(/(\r?\n)/);
+    let count = 0;
+    for (let i = 0; i < parts.length; i += 2) {
+      count += parts[i].match(regExp)?.length ?? 0;
+      // 正規表現モードでは $1 などのグループ参照を展開し、リテラルモードでは置換文字列をそのまま使う
+      // Regex mode expands group references such as $1; literal mode inserts the replacement verbatim.
+      parts[i] = params.is_regex
+        ? parts[i].replace(regExp, replacement)
+        : parts[i].replace(regExp, () => replacement);
+    }
+    const newContent = parts.join('');
+    if (count > 0 && newContent !== content) {
+      changes.push({ filePath, newContent });
+      summary.push(`${filePath}: ${count} replacement${count === 1 ? '' : 's'}`);
+    }
+  }
+
+  if (changes.length === 0) {
+    return { content: [{ type: 'text', text: 'Replacement would not change any file' }], isError: false };
+  }
+
+  const review = await reviewFileChanges(
+    changes,
+    `Replace "${params.query}" with "${replacement}" in ${changes.length} file${changes.length === 1 ? '' : 's'}?`,
+    params.skip_dialog,
+  );
+  if (!review.approved) {
+    return {
+      content: [{
+        type: 'text',
+        text: review.feedback
+          ? `Changes were rejected by the user with feedback: ${review.feedback}`
+          : 'Changes were rejected by the user',
+      }],
+      isError: true,
+    };
+  }
+
+  return {
+    content: [{ type: 'text', text: `Replaced text in ${changes.length} file${changes.length === 1 ? '' : 's'}:\n${summary.join('\n')}${review.newProblemsMessage}` }],
+    isError: false,
+  };
+}
+
+function buildRipgrepArgs(params: SearchTextParams): string[] {
+  const args = ['--hidden', '--glob', '!.git', '--max-columns', String(MAX_LINE_COLUMNS), '--max-columns-preview'];
+  args.push(params.case_sensitive ? '--case-sensitive' : '--ignore-case');
+  if (!params.is_regex) {
+    args.push('--fixed-strings');
+  }
+  if (params.whole_word) {
+    args.push('--word-regexp');
+  }
+  if (!(params.respect_gitignore ?? true)) {
+    args.push('--no-ignore');
+  }
+  for (const pattern of params.include ?? []) {
+    args.push('--glob', pattern);
+  }
+  for (const pattern of [...getExcludeSettingPatterns(), ...(params.exclude ?? [])]) {
+    args.push('--glob', `!${pattern}`);
+  }
+  return args;
+}
+
+function buildSearchRegExp(params: SearchTextParams): RegExp {
+  let source = params.is_regex ? params.query : params.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (params.whole_word) {
+    source = `\\b(?:${source})\\b`;
+  }
+  // 置換は 1 行ずつ行うため m フラグは不要。u フラグでサロゲートペアを 1 文字として扱う
+  // Replacement runs line by line, so no m flag is needed; the u flag treats surrogate pairs as single characters.
+  return new RegExp(source, params.case_sensitive ? 'gu' : 'giu');
+}
+
+// VS Code に同梱されている ripgrep のパスを探す (バージョンによって配置が異なる)
+// Locate the ripgrep binary bundled with VS Code; its location differs between versions.
+async function findRipgrep(): Promise<string | undefined> {
+  const binary = process.platform === 'win32' ? 'rg.exe' : 'rg';
+  const candidates = [
+    path.join(vscode.env.appRoot, 'node_modules', '@vscode', 'ripgrep', 'bin', binary),
+    path.join(vscode.env.appRoot, 'node_modules.asar.unpacked', '@vscode', 'ripgrep', 'bin', binary),
+    path.join(vscode.env.appRoot, 'node_modules', 'vscode-ripgrep', 'bin', binary),
+    path.join(vscode.env.appRoot, 'node_modules.asar.unpacked', 'vscode-ripgrep', 'bin', binary),
+  ];
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // 次の候補を試す
+      // Try the next candidate.
+    }
+  }
+  return undefined;
+}
+
+// ripgrep の --json 出力を解析し、max_results に達したらプロセスを止める
+// Parse ripgrep's --json output and stop the process once max_results is reached.
+function runRipgrepJson(rgPath: string, args: string[], maxResults: number): Promise<RipgrepOutput> {
+  return new Promise((resolve, reject) => {
+    const files = new Map<string, FileSearchResult>();
+    let matchCount = 0;
+    let truncated = false;
+    let buffer = '';
+    let stderr = '';
+
+    const rg = spawn(rgPath, args);
+    const handleLine = (line: string) => {
+      if (!line.trim() || truncated) {
+        return;
+      }
+      const event = JSON.parse(line) as { type: string; data: { path?: { text?: string }; lines?: { text?: string }; line_number?: number } };
+      if (event.type !== 'match' && event.type !== 'context') {
+        return;
+      }
+      const filePath = event.data.path?.text;
+      if (!filePath || event.data.line_number === undefined) {
+        return;
+      }
+
+      const isMatch = event.type === 'match';
+      if (isMatch && matchCount >= maxResults) {
+        truncated = true;
+        rg.kill();
+        return;
+      }
+      if (isMatch) {
+        matchCount++;
+      }
+
+      let result = files.get(filePath);
+      if (!result) {
+        result = { filePath, lines: [] };
+        files.set(filePath, result);
+      }
+      result.lines.push({
+        lineNumber: event.data.line_number,
+        text: (event.data.lines?.text ?? '').replace(/\r?\n$/, ''),
+        isMatch,
+      });
+    };
+
+    rg.stdout.setEncoding('utf8');
+    rg.stdout.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+        handleLine(line);
+      }
+    });
+    rg.stderr.setEncoding('utf8');
+    rg.stderr.on('data', (chunk: string) => {
+      stderr += chunk;
+    });
+    rg.on('error', reject);
+    rg.on('close', (code) => {
+      handleLine(buffer);
+      // 終了コード 1 は「一致なし」、2 はエラー (一部のファイルが読めない場合も含む)
+      // Exit code 1 means no matches; 2 means an error, which includes unreadable files.
+      if (code === 2 && matchCount === 0) {
+        reject(new Error(stderr.trim() || 'ripgrep failed'));
+        return;
+      }
+      resolve({ files: [...files.values()], matchCount, truncated });
+    });
+  });
+}
+
+function runRipgrepFileList(rgPath: string, args: string[]): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    const rg = spawn(rgPath, args);
+    rg.stdout.setEncoding('utf8');
+    rg.stdout.on('data', (chunk: string) => {
+      stdout += chunk;
+    });
+    rg.stderr.setEncoding('utf8');
+    rg.stderr.on('data', (chunk: string) => {
+      stderr += chunk;
+    });
+    rg.on('error', reject);
+    rg.on('close', (code) => {
+      const filePaths = stdout.split('\n').map((line) => line.trim()).filter(Boolean);
+      if (code === 2 && filePaths.length === 0) {
+        reject(new Error(stderr.trim() || 'ripgrep failed'));
+        return;
+      }
+      resolve(filePaths);
+    });
+  });
+}
+
+// grep と同様に、一致行は ":"、前後の行は "-" で区切り、離れた範囲の間に "--" を入れる
+// Like grep, separate match lines with ":" and context lines with "-", with "--" between distant blocks.
+function formatFileResult(result: FileSearchResult): string {
+  const lines = [result.filePath];
+  let previousLine: number | undefined;
+  for (const line of result.lines) {
+    if (previousLine !== undefined && line.lineNumber > previousLine + 1) {
+      lines.push('  --');
+    }
+    lines.push(`  ${line.lineNumber}${line.isMatch ? ':' : '-'} ${line.text}`);
+    previousLine = line.lineNumber;
+  }
+  return lines.join('\n');
+}
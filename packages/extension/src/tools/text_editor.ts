@@ -1,35 +1,132 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { z } from 'zod';
+import { isBinaryFile } from 'isbinaryfile';
+import { addLineNumbers, extractTextFromFile, RICH_DOCUMENT_EXTENSIONS, stripLineNumbers } from '../integrations/misc/extract-text';
 import { DiffViewProvider } from '../utils/DiffViewProvider';
 import { ConfirmationUI } from '../utils/confirmation_ui';
+import { getNewProblemsAfterEdit } from '../utils/diagnostics';
+import { EditJournal, JournalEntry, JournalFileChange, MAX_JOURNAL_FILE_BYTES, planJournalChanges } from '../utils/edit_journal';
+import { confirmChanges, reviewFileChanges } from '../utils/multi_file_review';
+import { applyReplacements, patchToReplacements, replaceInContent, TextReplacement } from '../utils/patch';
+import { findDocumentSymbols, getDocumentSymbols } from '../utils/source_location';
+
+// view で一度に返す行数・バイト数の既定の上限
+// Default limits on the lines and bytes returned by a single view.
+const DEFAULT_VIEW_MAX_LINES = 2000;
+const DEFAULT_VIEW_MAX_BYTES = 100 * 1024;
 
 // Zodスキーマ定義
 // Define the Zod schema.
 export const textEditorSchema = z.object({
-  command: z.enum(['view', 'str_replace', 'create', 'insert', 'undo_edit']),
-  path: z.string().describe('File path to operate on'),
+  command: z.enum(['view', 'str_replace', 'create', 'insert', 'undo_edit', 'redo_edit', 'list_edits', 'multi_edit', 'apply_patch']),
+  path: z.string().describe('File path to operate on (for apply_patch, the file patched by hunks without ---/+++ headers)'),
   view_range: z.tuple([z.number(), z.number()]).optional()
     .describe('Optional [start, end] line numbers for view command (1-indexed, -1 for end)'),
+  symbol: z.string().optional()
+    .describe('Name of a symbol to view instead of a line range, e.g. "MyClass.method" (view command)'),
+  line_numbers: z.boolean().optional()
+    .describe('Prefix each line with its line number, e.g. "12 | text" (view command)'),
+  max_lines: z.number().int().min(1).optional()
+    .describe(`Maximum number of lines to return; longer output is truncated with a hint on how to continue (view command, default: ${DEFAULT_VIEW_MAX_LINES})`),
+  max_bytes: z.number().int().min(1).optional()
+    .describe(`Maximum number of bytes to return (view command, default: ${DEFAULT_VIEW_MAX_BYTES})`),
   old_str: z.string().optional()
-    .describe('Text to replace (required for str_replace command)'),
+    .describe('Text to replace (required for str_replace command); must match exactly once unless occurrence or replace_all is set. Falls back to ignoring whitespace differences when there is no exact match'),
   new_str: z.string().optional()
     .describe('New text to insert (required for str_replace and insert commands)'),
   file_text: z.string().optional()
     .describe('Content for new file (required for create command)'),
   insert_line: z.number().optional()
     .describe('Line number to insert after (required for insert command)'),
+  occurrence: z.number().int().min(1).optional()
+    .describe('1-based index of the match to replace when old_str occurs more than once (str_replace command)'),
+  replace_all: z.boolean().optional()
+    .describe('Replace every occurrence of old_str (str_replace command)'),
+  edits: z.array(z.object({
+    path: z.string().optional().describe('File to edit (default: path)'),
+    old_str: z.string().describe('Text to replace; must match exactly once unless occurrence or replace_all is set'),
+    new_str: z.string().describe('Replacement text'),
+    occurrence: z.number().int().min(1).optional().describe('1-based index of the match to replace'),
+    replace_all: z.boolean().optional().describe('Replace every occurrence of old_str'),
+  })).optional()
+    .describe('Replacements applied in order, all or nothing (required for multi_edit command)'),
+  patch: z.string().optional()
+    .describe('Unified diff to apply, all or nothing; paths in ---/+++ headers are relative to the workspace root (required for apply_patch command)'),
+  edit_id: z.number().int().min(1).optional()
+    .describe('Number of the recorded edit to undo or redo, as shown by list_edits (undo_edit / redo_edit commands; default: the latest edit)'),
+  session_id: z.string().optional()
+    .describe('Undo or redo every edit of this MCP session, or list only its edits; "current" is the calling session (undo_edit / redo_edit / list_edits commands)'),
   skip_dialog: z.boolean().optional()
     .describe('Skip confirmation dialog (for testing only)'),
 });
 
 type TextEditorParams = z.infer<typeof textEditorSchema>;
 
+interface ViewOptions {
+  lineNumbers?: boolean;
+  maxLines?: number;
+  maxBytes?: number;
+}
+
 interface TextEditorResult {
   content: { type: 'text'; text: string }[];
   isError?: boolean;
 }
 
+interface ViewWindow {
+  // 表示する範囲 (0 始まり、終わりは含まない)
+  // Range to show (0-based, end exclusive).
+  startLine: number;
+  endLine: number;
+  // 上限により実際に表示する範囲の終わり
+  // End of what is actually shown within the limits.
+  shownEnd: number;
+  maxLines: number;
+  maxBytes: number;
+}
+
+// 行数・バイト数の上限に収まるところまで、行単位で含める (最初の 1 行は必ず含める)
+// Include whole lines while they fit within the line and byte limits (always at least the first one).
+function selectViewWindow(
+  getLine: (line: number) => string,
+  totalLines: number,
+  viewRange: [number, number] | undefined,
+  options: ViewOptions,
+): ViewWindow {
+  const startLine = viewRange ? Math.max(0, viewRange[0] - 1) : 0; // 1-indexed to 0-indexed
+  const endLine = viewRange && viewRange[1] !== -1 ? Math.min(viewRange[1], totalLines) : totalLines;
+  const maxLines = options.maxLines ?? DEFAULT_VIEW_MAX_LINES;
+  const maxBytes = options.maxBytes ?? DEFAULT_VIEW_MAX_BYTES;
+
+  let shownEnd = startLine;
+  let bytes = 0;
+  while (shownEnd < endLine && shownEnd - startLine < maxLines) {
+    const lineBytes = Buffer.byteLength(getLine(shownEnd), 'utf-8') + 1;
+    if (shownEnd > startLine && bytes + lineBytes > maxBytes) {
+      break;
+    }
+    bytes += lineBytes;
+    shownEnd++;
+  }
+  return { startLine, endLine, shownEnd, maxLines, maxBytes };
+}
+
+// 概要の後に、表示した範囲と (切り詰めた場合は) 続きの読み方を添える
+// Follow the summary with the lines shown and, when truncated, how to continue.
+function formatViewSummary(summary: string, window: ViewWindow, totalLines: number, viewRange: [number, number] | undefined): string {
+  const { startLine, endLine, shownEnd, maxLines, maxBytes } = window;
+  if (shownEnd < endLine) {
+    const rangeEnd = viewRange && viewRange[1] !== -1 ? viewRange[1] : -1;
+    return `${summary}\nShowing lines ${startLine + 1}-${shownEnd} only (limits: ${maxLines} lines, ${maxBytes} bytes).`
+      + ` Continue with view_range [${shownEnd + 1}, ${rangeEnd}].`;
+  }
+  if (startLine > 0 || endLine < totalLines) {
+    return `${summary}\nShowing lines ${startLine + 1}-${shownEnd}.`;
+  }
+  return summary;
+}
+
 // バックアップと差分表示を管理するクラス
 // Class that manages backups and diff views.
 class EditorManager {
@@ -104,6 +201,32 @@ class EditorManager {
     }
   }
 
+  // BOM があればそれを、なければ files.encoding の設定をエンコーディングとする
+  // Use the BOM when there is one, otherwise the files.encoding setting.
+  private async detectEncoding(uri: vscode.Uri): Promise<string> {
+    const bytes = await vscode.workspace.fs.readFile(uri);
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+      return 'utf8bom';
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+      return 'utf16le';
+    }
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return 'utf16be';
+    }
+    return vscode.workspace.getConfiguration('files', uri).get<string>('encoding', 'utf8');
+  }
+
+  // 差分表示を使わずにファイルを書き込み、新たに発生した問題のメッセージを返す
+  // Write the file without a diff view and return the message about newly introduced problems.
+  private async writeFileDirectly(uri: vscode.Uri, content: string): Promise<string> {
+    const preDiagnostics = vscode.languages.getDiagnostics();
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+    const newProblems = await getNewProblemsAfterEdit(preDiagnostics, [uri], workspaceRoot);
+    return newProblems.length > 0 ? `\n\nNew problems detected after saving the file:\n${newProblems}` : '';
+  }
+
   // 親ディレクトリを作成
   // Create the parent directory.
   private async ensureParentDirectory(filePath: string): Promise<void> {
@@ -122,7 +245,7 @@ class EditorManager {
     }
   }
 
-  async viewFile(filePath: string, viewRange?: [number, number]): Promise<TextEditorResult> {
+  async viewFile(filePath: string, viewRange?: [number, number], symbol?: string, options: ViewOptions = {}): Promise<TextEditorResult> {
     console.log('EditorManager: Viewing file:', filePath);
     try {
       const uri = this.getFileUri(filePath);
@@ -189,24 +312,36 @@ class EditorManager {
         };
       }
 
+  // PDF・DOCX・ノートブックとバイナリファイルは openTextDocument ではなく extract-text で読む
+  // PDF, DOCX, notebooks and binary files are read with extract-text instead of openTextDocument.
+      if (RICH_DOCUMENT_EXTENSIONS.includes(path.extname(uri.fsPath).toLowerCase()) || await isBinaryFile(uri.fsPath).catch(() => false)) {
+        return await this.viewExtractedText(uri, viewRange, options);
+      }
+
       const doc = await vscode.workspace.openTextDocument(uri);
-      let content: string;
-
-      if (viewRange) {
-        const [start, end] = viewRange;
-        const startLine = Math.max(0, start - 1); // 1-indexed to 0-indexed
-        const endLine = end === -1 ? doc.lineCount : end;
-        const range = new vscode.Range(
-          new vscode.Position(startLine, 0),
-          new vscode.Position(endLine, 0)
-        );
-        content = doc.getText(range);
-      } else {
-        content = doc.getText();
+
+      if (symbol) {
+        return await this.viewSymbol(doc, symbol, options);
       }
 
+  // 末尾の改行の後の空行は行数に含めない
+  // The empty line after a trailing newline is not counted.
+      const totalLines = doc.lineCount > 1 && doc.lineAt(doc.lineCount - 1).text === '' ? doc.lineCount - 1 : doc.lineCount;
+      const window = selectViewWindow((line) => doc.lineAt(line).text, totalLines, viewRange, options);
+
+      const content = this.getWindowText(doc, window, options.lineNumbers);
+
+  // 概要 (総行数・言語・エンコーディング) と続きの読み方は、本文が長くても最初に読まれるよう見出しとして先頭に置く
+  // The summary (total lines, language, encoding) and how to continue lead the text, so they are read first even when the text is long.
+      const summary = formatViewSummary(
+        `${uri.fsPath}: ${totalLines} lines, language: ${doc.languageId}, encoding: ${await this.detectEncoding(uri)}`,
+        window,
+        totalLines,
+        viewRange,
+      );
+
       return {
-        content: [{ type: 'text', text: content }],
+        content: [{ type: 'text', text: `${summary}\n\n${content}` }],
         isError: false,
       };
     } catch (error) {
@@ -218,7 +353,81 @@ class EditorManager {
     }
   }
 
-  async replaceText(filePath: string, oldStr: string, newStr: string, skipDialog?: boolean): Promise<TextEditorResult> {
+  // 表示範囲の行を、必要に応じて行番号付きで返す
+  // Return the lines of the window, with line numbers when requested.
+  private getWindowText(doc: vscode.TextDocument, window: ViewWindow, lineNumbers?: boolean): string {
+    if (!lineNumbers) {
+      return doc.getText(new vscode.Range(new vscode.Position(window.startLine, 0), new vscode.Position(window.shownEnd, 0)));
+    }
+    const lines: string[] = [];
+    for (let line = window.startLine; line < window.shownEnd; line++) {
+      lines.push(doc.lineAt(line).text);
+    }
+    return lines.length > 0 ? addLineNumbers(lines.join('\n'), window.startLine + 1) : '';
+  }
+
+  // 抽出したテキストも、通常のファイルと同じく行範囲・行番号・上限を適用して返す
+  // Extracted text gets the same line range, line numbers and limits as regular files.
+  private async viewExtractedText(uri: vscode.Uri, viewRange: [number, number] | undefined, options: ViewOptions): Promise<TextEditorResult> {
+    const lines = stripLineNumbers(await extractTextFromFile(uri.fsPath)).split('\n');
+    const totalLines = lines.length > 1 && lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+    const window = selectViewWindow((line) => lines[line], totalLines, viewRange, options);
+
+    const shown = lines.slice(window.startLine, window.shownEnd).join('\n');
+    let content: string;
+    if (options.lineNumbers) {
+      content = window.shownEnd > window.startLine ? addLineNumbers(shown, window.startLine + 1) : '';
+    } else {
+      // 通常のファイルと同じく、表示した各行の改行を含める
+      // Keep the newline of each shown line, as for regular files.
+      content = window.shownEnd < lines.length ? `${shown}\n` : shown;
+    }
+    const documentType = path.extname(uri.fsPath).slice(1).toUpperCase();
+    const summary = formatViewSummary(`${uri.fsPath}: ${totalLines} lines of text extracted from the ${documentType} document`, window, totalLines, viewRange);
+    return {
+      content: [{ type: 'text', text: `${summary}\n\n${content}` }],
+      isError: false,
+    };
+  }
+
+  // シンボルの範囲 (宣言全体) を表示する。同名のシンボルが複数ある場合は最初のものを表示し、他の位置を併記する
+  // Show the range of a symbol (its whole declaration). With several matches the first is shown and the others are listed.
+  // 範囲には通常の表示と同じ上限を適用し、切り詰めた場合は続きの読み方を添える
+  // The range gets the same limits as a regular view, with how to continue when it is truncated.
+  private async viewSymbol(doc: vscode.TextDocument, symbol: string, options: ViewOptions): Promise<TextEditorResult> {
+    const matches = findDocumentSymbols(await getDocumentSymbols(doc.uri), symbol);
+    if (matches.length === 0) {
+      return {
+        content: [{ type: 'text', text: `Symbol "${symbol}" not found in ${doc.uri.fsPath}. Use the document_symbols tool to list the available symbols.` }],
+        isError: true,
+      };
+    }
+
+    const { range, kind, name } = matches[0].symbol;
+    let header = `${doc.uri.fsPath}: ${vscode.SymbolKind[kind]} ${[...matches[0].ancestors, name].join('.')}`;
+    if (matches.length > 1) {
+      const others = matches.slice(1).map((match) => `line ${match.symbol.range.start.line + 1}`).join(', ');
+      header += `; ${matches.length - 1} other match(es) at ${others}`;
+    }
+
+    const symbolRange: [number, number] = [range.start.line + 1, range.end.line + 1];
+    const window = selectViewWindow((line) => doc.lineAt(line).text, doc.lineCount, symbolRange, options);
+    const content = this.getWindowText(doc, window, options.lineNumbers);
+    const summary = formatViewSummary(header, window, doc.lineCount, symbolRange);
+    return {
+      content: [{ type: 'text', text: `${summary}\n\n${content}` }],
+      isError: false,
+    };
+  }
+
+  async replaceText(
+    filePath: string,
+    oldStr: string,
+    newStr: string,
+    skipDialog?: boolean,
+    options: { occurrence?: number; replaceAll?: boolean } = {},
+    sessionId?: string,
+  ): Promise<TextEditorResult> {
     console.log('EditorManager: Replacing text in file:', filePath);
     try {
       const uri = this.getFileUri(filePath);
@@ -237,21 +446,30 @@ class EditorManager {
       console.log('EditorManager: Reading file content');
       const existingBuffer = await vscode.workspace.fs.readFile(uri);
       const content = Buffer.from(existingBuffer).toString('utf-8');
-      if (!content.includes(oldStr)) {
+  // 曖昧な一致は置換せず、一致した行を返す
+  // Ambiguous matches are not replaced; the matching lines are reported instead.
+      const result = replaceInContent(content, { oldStr, newStr, ...options });
+      if ('error' in result) {
         return {
-          content: [{ type: 'text', text: `Text to replace '${oldStr}' not found in the file` }],
+          content: [{ type: 'text', text: `Cannot replace text in ${uri.fsPath}: ${result.error}` }],
           isError: true,
         };
       }
-      const newContent = content.replaceAll(oldStr, newStr);
+      const newContent = result.newContent;
+      const matchNote = [
+        result.replacedCount > 1 ? `${result.replacedCount} occurrences replaced` : '',
+        result.ignoredWhitespace ? 'matched ignoring whitespace differences' : '',
+      ].filter(Boolean).join(', ');
+      const successText = `Text replacement completed successfully${matchNote ? ` (${matchNote})` : ''}`;
       console.log('EditorManager: Text replacement - Old:', oldStr, 'New:', newStr);
 
       console.log('EditorManager: Content length - Original:', content.length, 'New:', newContent.length);
 
       if (skipDialog) {
-        await vscode.workspace.fs.writeFile(uri, Buffer.from(newContent, 'utf-8'));
+        const newProblemsMessage = await this.writeFileDirectly(uri, newContent);
+        const editNote = await this.recordEdit('str_replace', sessionId, [{ uri, before: content }]);
         return {
-          content: [{ type: 'text', text: 'Text replacement completed successfully' }],
+          content: [{ type: 'text', text: `${successText}${newProblemsMessage}${editNote}` }],
           isError: false,
         };
       }
@@ -305,6 +523,7 @@ class EditorManager {
 
       console.log('EditorManager: Saving changes');
       const { newProblemsMessage, userEdits, userFeedback } = await this.diffViewProvider.saveChanges();
+      const editNote = await this.recordEdit('str_replace', sessionId, [{ uri, before: content }]);
 
   // フィードバックの有無に応じてコンテンツを整形
   // Format the response based on whether feedback is present.
@@ -314,7 +533,7 @@ class EditorManager {
         return {
           content: [{
             type: 'text',
-            text: `User modified the changes. Please review the updated content.${newProblemsMessage || ''}${feedbackText}`
+            text: `User modified the changes. Please review the updated content.${newProblemsMessage || ''}${editNote}${feedbackText}`
           }],
           isError: false,
         };
@@ -323,7 +542,7 @@ class EditorManager {
       return {
         content: [{
           type: 'text',
-          text: `Text replacement completed successfully${newProblemsMessage || ''}${feedbackText}`
+          text: `${successText}${newProblemsMessage || ''}${editNote}${feedbackText}`
         }],
         isError: false,
       };
@@ -340,7 +559,7 @@ class EditorManager {
     }
   }
 
-  async createFile(filePath: string, fileText: string, skipDialog?: boolean): Promise<TextEditorResult> {
+  async createFile(filePath: string, fileText: string, skipDialog?: boolean, sessionId?: string): Promise<TextEditorResult> {
     console.log('EditorManager: Creating file:', filePath);
     try {
       const uri = this.getFileUri(filePath);
@@ -363,9 +582,10 @@ class EditorManager {
 
       if (skipDialog) {
         await this.ensureParentDirectory(filePath);
-        await vscode.workspace.fs.writeFile(uri, Buffer.from(fileText, 'utf-8'));
+        const newProblemsMessage = await this.writeFileDirectly(uri, fileText);
+        const editNote = await this.recordEdit('create', sessionId, [{ uri, before: null }]);
         return {
-          content: [{ type: 'text', text: 'File created successfully' }],
+          content: [{ type: 'text', text: `File created successfully${newProblemsMessage}${editNote}` }],
           isError: false,
         };
       }
@@ -421,6 +641,7 @@ class EditorManager {
 
       console.log('EditorManager: Saving changes');
       const { newProblemsMessage, userEdits, userFeedback } = await this.diffViewProvider.saveChanges();
+      const editNote = await this.recordEdit('create', sessionId, [{ uri, before: null }]);
 
   // フィードバックの有無に応じてコンテンツを整形
   // Format the response based on whether feedback is present.
@@ -430,7 +651,7 @@ class EditorManager {
         return {
           content: [{
             type: 'text',
-            text: `User modified the new file content. Please review the changes.${newProblemsMessage || ''}${feedbackText}`
+            text: `User modified the new file content. Please review the changes.${newProblemsMessage || ''}${editNote}${feedbackText}`
           }],
           isError: false,
         };
@@ -439,7 +660,7 @@ class EditorManager {
       return {
         content: [{
           type: 'text',
-          text: `File created successfully${newProblemsMessage || ''}${feedbackText}`
+          text: `File created successfully${newProblemsMessage || ''}${editNote}${feedbackText}`
         }],
         isError: false,
       };
@@ -456,7 +677,7 @@ class EditorManager {
     }
   }
 
-  async insertText(filePath: string, insertLine: number, newStr: string, skipDialog?: boolean): Promise<TextEditorResult> {
+  async insertText(filePath: string, insertLine: number, newStr: string, skipDialog?: boolean, sessionId?: string): Promise<TextEditorResult> {
     console.log('EditorManager: Inserting text in file:', filePath);
     try {
       const uri = this.getFileUri(filePath);
@@ -479,11 +700,12 @@ class EditorManager {
       const newContent = lines.join('\n');
 
       if (skipDialog) {
-        await vscode.workspace.fs.writeFile(uri, Buffer.from(newContent, 'utf-8'));
+        const newProblemsMessage = await this.writeFileDirectly(uri, newContent);
+        const editNote = await this.recordEdit('insert', sessionId, [{ uri, before: content }]);
         return {
           content: [{
             type: 'text',
-            text: 'Text insertion completed successfully'
+            text: `Text insertion completed successfully${newProblemsMessage}${editNote}`
           }],
           isError: false,
         };
@@ -535,6 +757,7 @@ class EditorManager {
 
       console.log('EditorManager: Saving changes');
       const { newProblemsMessage, userEdits, userFeedback } = await this.diffViewProvider.saveChanges();
+      const editNote = await this.recordEdit('insert', sessionId, [{ uri, before: content }]);
 
   // フィードバックの有無に応じてコンテンツを整形
   // Format the response based on whether feedback is present.
@@ -544,7 +767,7 @@ class EditorManager {
         return {
           content: [{
             type: 'text',
-            text: `User modified the inserted content. Please review the changes.${newProblemsMessage || ''}${feedbackText}`
+            text: `User modified the inserted content. Please review the changes.${newProblemsMessage || ''}${editNote}${feedbackText}`
           }],
           isError: false,
         };
@@ -553,7 +776,7 @@ class EditorManager {
       return {
         content: [{
           type: 'text',
-          text: `Text insertion completed successfully${newProblemsMessage || ''}${feedbackText}`
+          text: `Text insertion completed successfully${newProblemsMessage || ''}${editNote}${feedbackText}`
         }],
         isError: false,
       };
@@ -570,21 +793,113 @@ class EditorManager {
     }
   }
 
-  async undoEdit(): Promise<TextEditorResult> {
-    console.log('EditorManager: Undoing edit');
+  async multiEdit(filePath: string, edits: NonNullable<TextEditorParams['edits']>, skipDialog?: boolean, sessionId?: string): Promise<TextEditorResult> {
+    return await this.applyEdits(edits.map((edit, index) => ({
+      filePath: this.resolvePath(edit.path ?? filePath),
+      oldStr: edit.old_str,
+      newStr: edit.new_str,
+      occurrence: edit.occurrence,
+      replaceAll: edit.replace_all,
+      label: `Edit ${index + 1}${edit.path ? ` (${edit.path})` : ''}`,
+    })), 'multi_edit', skipDialog, sessionId);
+  }
+
+  async applyPatch(filePath: string, patch: string, skipDialog?: boolean, sessionId?: string): Promise<TextEditorResult> {
+    let replacements: TextReplacement[];
     try {
-      if (!this.diffViewProvider.isEditing) {
+      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+      replacements = patchToReplacements(patch, workspaceRoot, this.resolvePath(filePath));
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Invalid patch: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+    return await this.applyEdits(replacements, 'apply_patch', skipDialog, sessionId);
+  }
+
+  // 複数の置換をまとめて検証し、1 回の確認で全ファイルに適用する
+  // Validate several replacements together and apply them to all files after a single confirmation.
+  private async applyEdits(
+    replacements: TextReplacement[],
+    command: string,
+    skipDialog?: boolean,
+    sessionId?: string,
+  ): Promise<TextEditorResult> {
+    console.log('EditorManager: Applying edits:', replacements.length);
+    try {
+      const { changes, failures } = await applyReplacements(replacements);
+      if (failures.length > 0) {
         return {
-          content: [{ type: 'text', text: 'No active edit session to undo' }],
+          content: [{
+            type: 'text',
+            text: `No changes were made because ${failures.length} of ${replacements.length} edits did not apply:\n${failures.map((failure) => `- ${failure}`).join('\n')}`,
+          }],
           isError: true,
         };
       }
 
-      await this.diffViewProvider.revertChanges();
+      const before = await Promise.all(changes.map(async (change) => {
+        const uri = vscode.Uri.file(change.filePath);
+        return { uri, before: await this.readFileOrNull(uri) };
+      }));
+      const review = await reviewFileChanges(
+        changes,
+        `Apply ${replacements.length} edits to ${changes.length} file${changes.length === 1 ? '' : 's'}?`,
+        skipDialog,
+      );
+      if (!review.approved) {
+        return {
+          content: [{
+            type: 'text',
+            text: review.feedback
+              ? `Changes were rejected by the user with feedback: ${review.feedback}`
+              : 'Changes were rejected by the user',
+          }],
+          isError: true,
+        };
+      }
+
+      const editNote = await this.recordEdit(command, sessionId, before);
+      const summary = changes.map((change) => `${change.filePath}: ${change.editCount} edit${change.editCount === 1 ? '' : 's'}`).join('\n');
       return {
-        content: [{ type: 'text', text: 'Undo completed successfully' }],
+        content: [{ type: 'text', text: `Applied ${replacements.length} edits to ${changes.length} file${changes.length === 1 ? '' : 's'}:\n${summary}${review.newProblemsMessage}${editNote}` }],
         isError: false,
       };
+    } catch (error) {
+      console.error('EditorManager: Error in applyEdits:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text', text: `Error applying edits: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+
+  // 編集番号・セッションを指定しなければ、直前の編集を元に戻す
+  // Without an edit number or session, undo the latest edit.
+  async undoEdit(editId?: number, targetSessionId?: string, skipDialog?: boolean): Promise<TextEditorResult> {
+    console.log('EditorManager: Undoing edit');
+    try {
+  // 差分表示中の編集があれば、従来どおりそれを破棄する
+  // An edit still shown in the diff view is discarded, as before.
+      if (this.diffViewProvider.isEditing) {
+        await this.diffViewProvider.revertChanges();
+        return {
+          content: [{ type: 'text', text: 'Undo completed successfully' }],
+          isError: false,
+        };
+      }
+
+      const journal = EditJournal.getInstance();
+      const entries = this.selectJournalEntries(editId, targetSessionId, false) ?? [journal.nextToUndo()].filter((entry) => entry !== undefined);
+      if (entries.length === 0) {
+        return {
+          content: [{ type: 'text', text: 'No recorded edit to undo. Use list_edits to see the edit history.' }],
+          isError: true,
+        };
+      }
+      return await this.applyJournalEntries(entries, 'undo', skipDialog);
     } catch (error) {
       console.error('EditorManager: Error in undoEdit:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -596,17 +911,172 @@ class EditorManager {
       await this.diffViewProvider.reset();
     }
   }
+
+  // 編集番号・セッションを指定しなければ、最も古い元に戻された編集をやり直す
+  // Without an edit number or session, redo the oldest undone edit.
+  async redoEdit(editId?: number, targetSessionId?: string, skipDialog?: boolean): Promise<TextEditorResult> {
+    console.log('EditorManager: Redoing edit');
+    try {
+      const journal = EditJournal.getInstance();
+      const entries = this.selectJournalEntries(editId, targetSessionId, true) ?? [journal.nextToRedo()].filter((entry) => entry !== undefined);
+      if (entries.length === 0) {
+        return {
+          content: [{ type: 'text', text: 'No undone edit to redo. Use list_edits to see the edit history.' }],
+          isError: true,
+        };
+      }
+      return await this.applyJournalEntries(entries, 'redo', skipDialog);
+    } catch (error) {
+      console.error('EditorManager: Error in redoEdit:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        content: [{ type: 'text', text: `Error redoing changes: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+
+  listEdits(targetSessionId?: string): TextEditorResult {
+    const entries = EditJournal.getInstance().list(targetSessionId).reverse();
+    if (entries.length === 0) {
+      return {
+        content: [{ type: 'text', text: targetSessionId ? `No edits recorded for session ${targetSessionId}` : 'No edits recorded' }],
+        isError: false,
+      };
+    }
+
+    const lines = ['Recorded edits (newest first):'];
+    for (const entry of entries) {
+      const session = entry.sessionId ? ` [session ${entry.sessionId}]` : '';
+      lines.push(`#${entry.id} ${entry.timestamp} ${entry.command}${session}${entry.undone ? ' (undone)' : ''}`);
+      for (const file of entry.files) {
+        lines.push(`  ${file.filePath}${file.before === null ? ' (created)' : ''}`);
+      }
+    }
+    return { content: [{ type: 'text', text: lines.join('\n') }], isError: false };
+  }
+
+  // 編集番号またはセッションで対象の編集を選ぶ (どちらも指定されなければ undefined)
+  // Select the edits by number or session; undefined when neither is given.
+  private selectJournalEntries(editId: number | undefined, targetSessionId: string | undefined, undone: boolean): JournalEntry[] | undefined {
+    const journal = EditJournal.getInstance();
+    if (editId !== undefined) {
+      const entry = journal.get(editId);
+      if (!entry) {
+        throw new Error(`Edit #${editId} is not in the edit history`);
+      }
+      if (entry.undone !== undone) {
+        throw new Error(`Edit #${editId} has ${entry.undone ? 'already been undone' : 'not been undone'}`);
+      }
+      return [entry];
+    }
+    if (targetSessionId !== undefined) {
+      return journal.list(targetSessionId).filter((entry) => entry.undone === undone);
+    }
+    return undefined;
+  }
+
+  // 編集履歴に従ってファイルを書き戻す。どれか 1 つでも書き戻せなければ何も変更しない
+  // Write files back according to the journal; nothing is changed when any of them cannot be written back.
+  private async applyJournalEntries(entries: JournalEntry[], direction: 'undo' | 'redo', skipDialog?: boolean): Promise<TextEditorResult> {
+    const label = entries.length === 1 ? `edit #${entries[0].id}` : `${entries.length} edits (${entries.map((entry) => `#${entry.id}`).join(', ')})`;
+    const { targets, conflicts } = await planJournalChanges(entries, direction);
+    if (conflicts.length > 0) {
+      return {
+        content: [{ type: 'text', text: `Cannot ${direction} ${label}; no files were changed:\n${conflicts.map((conflict) => `- ${conflict}`).join('\n')}` }],
+        isError: true,
+      };
+    }
+
+    if (!skipDialog) {
+      const confirmation = await confirmChanges(`${direction === 'undo' ? 'Undo' : 'Redo'} ${label}?`, [...targets.keys()].join('\n'));
+      if (!confirmation.approved) {
+        return {
+          content: [{
+            type: 'text',
+            text: confirmation.feedback
+              ? `Changes were rejected by the user with feedback: ${confirmation.feedback}`
+              : 'Changes were rejected by the user',
+          }],
+          isError: true,
+        };
+      }
+    }
+
+    const preDiagnostics = vscode.languages.getDiagnostics();
+    const uris: vscode.Uri[] = [];
+    for (const [filePath, content] of targets) {
+      const uri = vscode.Uri.file(filePath);
+      uris.push(uri);
+      if (content === null) {
+        await vscode.workspace.fs.delete(uri);
+      } else {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+      }
+    }
+    await EditJournal.getInstance().setUndone(entries, direction === 'undo');
+
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+    const newProblems = await getNewProblemsAfterEdit(preDiagnostics, uris, workspaceRoot);
+    const newProblemsMessage = newProblems.length > 0 ? `\n\nNew problems detected after saving the files:\n${newProblems}` : '';
+    const files = [...targets.entries()].map(([filePath, content]) => `${filePath}${content === null ? ' (deleted)' : ''}`).join('\n');
+    return {
+      content: [{ type: 'text', text: `${direction === 'undo' ? 'Undid' : 'Redid'} ${label}:\n${files}${newProblemsMessage}` }],
+      isError: false,
+    };
+  }
+
+  // 書き込みを編集履歴に記録し、結果に添える編集番号の案内を返す
+  // Record a write in the edit journal and return the note about its edit number.
+  private async recordEdit(command: string, sessionId: string | undefined, files: { uri: vscode.Uri; before: string | null }[]): Promise<string> {
+    const changes: JournalFileChange[] = [];
+    for (const file of files) {
+      const after = await this.readFileOrNull(file.uri);
+      if (after !== null) {
+        changes.push({ filePath: file.uri.fsPath, before: file.before, after });
+      }
+    }
+    const { entry, skippedFiles } = await EditJournal.getInstance().record(command, sessionId, changes);
+    let note = entry ? `\n\nRecorded as edit #${entry.id}; revert it with undo_edit.` : '';
+    if (skippedFiles.length > 0) {
+      note += `\n\nNot recorded in the edit history because ${skippedFiles.length === 1 ? 'it is' : 'they are'} larger than ${MAX_JOURNAL_FILE_BYTES} bytes`
+        + ` (undo_edit cannot revert ${skippedFiles.length === 1 ? 'it' : 'them'}): ${skippedFiles.join(', ')}`;
+    }
+    return note;
+  }
+
+  private async readFileOrNull(uri: vscode.Uri): Promise<string | null> {
+    try {
+      return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+    } catch {
+      return null;
+    }
+  }
 }
 
 // メインのツールハンドラー
 // Main tool handler.
-export async function textEditorTool(params: TextEditorParams): Promise<TextEditorResult> {
+export async function textEditorTool(params: TextEditorParams, sessionId?: string): Promise<TextEditorResult> {
   console.log('textEditorTool: Starting with params:', params);
   const editor = EditorManager.getInstance();
 
+  // "current" は呼び出し元の MCP セッションを指す
+  // "current" refers to the calling MCP session.
+  const targetSessionId = params.session_id === 'current' ? sessionId : params.session_id;
+  if (params.session_id === 'current' && !sessionId) {
+    return {
+      content: [{ type: 'text', text: 'The current connection has no MCP session ID; pass the session_id shown by list_edits instead' }],
+      isError: true,
+    };
+  }
+
   switch (params.command) {
     case 'view': {
-      return await editor.viewFile(params.path, params.view_range);
+      return await editor.viewFile(params.path, params.view_range, params.symbol, {
+        lineNumbers: params.line_numbers,
+        maxLines: params.max_lines,
+        maxBytes: params.max_bytes,
+      });
     }
     case 'str_replace': {
       if (!params.old_str || !params.new_str) {
@@ -615,7 +1085,10 @@ export async function textEditorTool(params: TextEditorParams): Promise<TextEdit
           isError: true,
         };
       }
-      return await editor.replaceText(params.path, params.old_str, params.new_str, params.skip_dialog);
+      return await editor.replaceText(params.path, params.old_str, params.new_str, params.skip_dialog, {
+        occurrence: params.occurrence,
+        replaceAll: params.replace_all,
+      }, sessionId);
     }
     case 'create': {
       if (!params.file_text) {
@@ -624,7 +1097,7 @@ export async function textEditorTool(params: TextEditorParams): Promise<TextEdit
           isError: true,
         };
       }
-      return await editor.createFile(params.path, params.file_text, params.skip_dialog);
+      return await editor.createFile(params.path, params.file_text, params.skip_dialog, sessionId);
     }
     case 'insert': {
       if (params.insert_line === undefined || !params.new_str) {
@@ -633,10 +1106,34 @@ export async function textEditorTool(params: TextEditorParams): Promise<TextEdit
           isError: true,
         };
       }
-      return await editor.insertText(params.path, params.insert_line, params.new_str, params.skip_dialog);
+      return await editor.insertText(params.path, params.insert_line, params.new_str, params.skip_dialog, sessionId);
     }
     case 'undo_edit': {
-      return await editor.undoEdit();
+      return await editor.undoEdit(params.edit_id, targetSessionId, params.skip_dialog);
+    }
+    case 'redo_edit': {
+      return await editor.redoEdit(params.edit_id, targetSessionId, params.skip_dialog);
+    }
+    case 'list_edits': {
+      return editor.listEdits(targetSessionId);
+    }
+    case 'multi_edit': {
+      if (!params.edits || params.edits.length === 0) {
+        return {
+          content: [{ type: 'text', text: 'edits parameter is required' }],
+          isError: true,
+        };
+      }
+      return await editor.multiEdit(params.path, params.edits, params.skip_dialog, sessionId);
+    }
+    case 'apply_patch': {
+      if (!params.patch) {
+        return {
+          content: [{ type: 'text', text: 'patch parameter is required' }],
+          isError: true,
+        };
+      }
+      return await editor.applyPatch(params.path, params.patch, params.skip_dialog, sessionId);
     }
     default:
       return {
@@ -3,7 +3,7 @@ import * as path from "path";
 import stripBom from "strip-bom";
 import * as vscode from "vscode";
 import { DecorationController } from "./DecorationController";
-import { diagnosticsToProblemsString, getNewDiagnostics } from "./diagnostics";
+import { getNewProblemsAfterEdit } from "./diagnostics";
 import { arePathsEqual } from "./path";
 
 export const DIFF_VIEW_URI_SCHEME = "mcp-diff";
@@ -177,7 +177,9 @@ export class DiffViewProvider {
     }
   }
 
-  async saveChanges(): Promise<{
+  // reportNewProblems が false の場合は診断を待たない (複数ファイルをまとめて保存し、後で一度だけ報告する場合)
+  // When reportNewProblems is false, diagnostics are not awaited (for saving several files and reporting once afterwards).
+  async saveChanges(reportNewProblems = true): Promise<{
     newProblemsMessage: string | undefined
     userEdits: string | undefined
   // 新たに追加：ユーザーフィードバックを含めるフィールド
@@ -215,14 +217,10 @@ export class DiffViewProvider {
     applying a fix, won't be notified, which is generally fine since the
     initial fix is usually correct and it may just take time for linters to catch up.
     */
-    const postDiagnostics = vscode.languages.getDiagnostics()
-    const newProblems = await diagnosticsToProblemsString(
-      getNewDiagnostics(this.preDiagnostics, postDiagnostics),
-      [
-        vscode.DiagnosticSeverity.Error, // only including errors since warnings can be distracting (if user wants to fix warnings they can use the @problems mention)
-      ],
-      this.cwd,
-    ) // will be empty string if no errors
+    // Wait briefly for the language server to re-check the file; the reported severities are configurable (mcpServer.editDiagnosticsSeverity)
+    const newProblems = reportNewProblems
+      ? await getNewProblemsAfterEdit(this.preDiagnostics, [vscode.Uri.file(absolutePath)], this.cwd)
+      : "" // will be empty string if no problems
     const newProblemsMessage =
       newProblems.length > 0 ? `\n\nNew problems detected after saving the file:\n${newProblems}` : ""
 
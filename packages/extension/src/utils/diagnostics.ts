@@ -8,10 +8,12 @@ export function getNewDiagnostics(
 	newDiagnostics: [vscode.Uri, vscode.Diagnostic[]][],
 ): [vscode.Uri, vscode.Diagnostic[]][] {
 	const newProblems: [vscode.Uri, vscode.Diagnostic[]][] = []
-	const oldMap = new Map(oldDiagnostics)
+	// Uri インスタンスは getDiagnostics の呼び出しごとに異なりうるため、文字列で比較する
+	// Uri instances may differ between getDiagnostics calls, so compare them as strings.
+	const oldMap = new Map(oldDiagnostics.map(([uri, diags]) => [uri.toString(), diags]))
 
 	for (const [uri, newDiags] of newDiagnostics) {
-		const oldDiags = oldMap.get(uri) || []
+		const oldDiags = oldMap.get(uri.toString()) || []
 		const newProblemsForUri = newDiags.filter((newDiag) => !oldDiags.some((oldDiag) => deepEqual(oldDiag, newDiag)))
 
 		if (newProblemsForUri.length > 0) {
@@ -111,3 +113,82 @@ export async function diagnosticsToProblemsString(
 	}
 	return result.trim()
 }
+
+// 診断が変化しなくなったとみなすまでの待機時間 (ミリ秒)
+// Quiet period (ms) after which diagnostics are considered settled.
+export const DIAGNOSTICS_SETTLE_MS = 1000
+
+/**
+ * 対象ファイルの診断が settleMs の間変化しなくなるまで待つ
+ * Wait until the diagnostics of the matching files have not changed for settleMs.
+ * 言語サーバーの再チェックが終わる前に古い診断を読まないために使用します。
+ * Used to avoid reading stale diagnostics before the language server has re-checked the files.
+ *
+ * @returns true when the diagnostics settled, false when timeoutMs elapsed first
+ */
+export function waitForDiagnosticsToSettle(
+	matches: (uri: vscode.Uri) => boolean,
+	settleMs: number,
+	timeoutMs: number,
+): Promise<boolean> {
+	return new Promise((resolve) => {
+		let settleTimer: NodeJS.Timeout | undefined
+		const finish = (settled: boolean) => {
+			clearTimeout(settleTimer)
+			clearTimeout(timeoutTimer)
+			listener.dispose()
+			resolve(settled)
+		}
+		const restartSettleTimer = () => {
+			clearTimeout(settleTimer)
+			settleTimer = setTimeout(() => finish(true), settleMs)
+		}
+
+		const listener = vscode.languages.onDidChangeDiagnostics((event) => {
+			if (event.uris.some(matches)) {
+				restartSettleTimer()
+			}
+		})
+		const timeoutTimer = setTimeout(() => finish(false), timeoutMs)
+		restartSettleTimer()
+	})
+}
+
+// 編集後に診断の更新を待つ最大時間 (ミリ秒)
+// Maximum time (ms) to wait for diagnostics to update after an edit.
+const EDIT_DIAGNOSTICS_TIMEOUT_MS = 5000
+
+/**
+ * 編集したファイルの診断が落ち着くのを待ち、編集前にはなかった問題を文字列にする
+ * Wait for the diagnostics of the edited files to settle, then describe the problems that were not there before the edit.
+ * 報告する重大度と待機時間は mcpServer.editDiagnosticsSeverity / mcpServer.editDiagnosticsSettleMs で設定します。
+ * The reported severity and the settle delay come from mcpServer.editDiagnosticsSeverity and mcpServer.editDiagnosticsSettleMs.
+ *
+ * @returns the problems as text, or an empty string when there are none or reporting is turned off
+ */
+export async function getNewProblemsAfterEdit(
+	preDiagnostics: [vscode.Uri, vscode.Diagnostic[]][],
+	editedUris: vscode.Uri[],
+	cwd: string,
+): Promise<string> {
+	const config = vscode.workspace.getConfiguration("mcpServer")
+	const severityLevel = config.get<keyof typeof vscode.DiagnosticSeverity | "Off">("editDiagnosticsSeverity", "Warning")
+	if (severityLevel === "Off") {
+		return ""
+	}
+
+	const settleMs = config.get<number>("editDiagnosticsSettleMs", 500)
+	if (settleMs > 0) {
+		const edited = new Set(editedUris.map((uri) => uri.toString()))
+		await waitForDiagnosticsToSettle((uri) => edited.has(uri.toString()), settleMs, EDIT_DIAGNOSTICS_TIMEOUT_MS)
+	}
+
+	const threshold = vscode.DiagnosticSeverity[severityLevel]
+	const severities = [
+		vscode.DiagnosticSeverity.Error,
+		vscode.DiagnosticSeverity.Warning,
+		vscode.DiagnosticSeverity.Information,
+		vscode.DiagnosticSeverity.Hint,
+	].filter((severity) => severity <= threshold)
+	return diagnosticsToProblemsString(getNewDiagnostics(preDiagnostics, vscode.languages.getDiagnostics()), severities, cwd)
+}
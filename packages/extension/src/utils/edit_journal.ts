@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+
+// 保持する編集の最大数 (古いものから破棄)
+// Maximum number of edits kept; the oldest are discarded first.
+const MAX_JOURNAL_ENTRIES = 100;
+
+// 1 ファイルあたりに記録する内容 (編集前後の合計) の上限。超えるファイルは記録しない
+// Maximum bytes recorded per file (before and after combined); larger files are not recorded.
+export const MAX_JOURNAL_FILE_BYTES = 1024 * 1024;
+
+// 履歴全体の上限 (古いものから破棄)
+// Maximum bytes of the whole journal; the oldest entries are discarded first.
+const MAX_JOURNAL_BYTES = 16 * 1024 * 1024;
+
+const JOURNAL_FILE_NAME = 'edit-journal.json';
+
+export interface JournalFileChange {
+  // 編集したファイルの絶対パス
+  // Absolute path of the edited file.
+  filePath: string;
+  // 編集前の内容 (ファイルを作成した場合は null)
+  // Content before the edit (null when the edit created the file).
+  before: string | null;
+  after: string;
+}
+
+export interface JournalEntry {
+  id: number;
+  // ISO 8601 形式の記録日時
+  // Time of the edit in ISO 8601 format.
+  timestamp: string;
+  // 編集を行った text_editor のコマンド
+  // The text_editor command that made the edit.
+  command: string;
+  sessionId?: string;
+  files: JournalFileChange[];
+  undone: boolean;
+}
+
+export interface JournalRecordResult {
+  // 記録した編集 (記録できる変更がなければ undefined)
+  // The recorded edit; undefined when there was no change to record.
+  entry?: JournalEntry;
+  // 大きすぎて記録しなかったファイル
+  // Files that were too large to record.
+  skippedFiles: string[];
+}
+
+export interface JournalChangePlan {
+  // ファイルごとの書き戻す内容 (null はファイルの削除)
+  // Content to write back per file (null deletes the file).
+  targets: Map<string, string | null>;
+  // 書き戻せない理由 (1 つでもあれば何も変更しない)
+  // Reasons why the files cannot be written back; nothing is changed when there are any.
+  conflicts: string[];
+}
+
+/**
+ * text_editor による書き込みを、編集前後の内容とともに記録する履歴
+ * Journal of the writes made by text_editor, with the content before and after each edit.
+ * 拡張機能のワークスペースごとのストレージに保存され、保存後の編集も元に戻せます。
+ * It is persisted in the extension's per-workspace storage, so edits can be undone after they were saved.
+ */
+export class EditJournal {
+  private static instance: EditJournal | undefined;
+  private entries: JournalEntry[] = [];
+  private nextId = 1;
+  // 保存先 (ワークスペースが開かれていない場合はメモリ上のみ)
+  // Where the journal is saved; it stays in memory when no workspace is open.
+  private storageFile?: vscode.Uri;
+
+  static getInstance(): EditJournal {
+    if (!EditJournal.instance) {
+      EditJournal.instance = new EditJournal();
+    }
+    return EditJournal.instance;
+  }
+
+  // 保存済みの履歴を読み込み、以降の変更を storageUri に保存する
+  // Load the saved journal and persist further changes under storageUri.
+  async initialize(storageUri: vscode.Uri | undefined): Promise<void> {
+    if (!storageUri) {
+      return;
+    }
+    this.storageFile = vscode.Uri.joinPath(storageUri, JOURNAL_FILE_NAME);
+    try {
+      const data = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(this.storageFile)).toString('utf-8'));
+      this.entries = Array.isArray(data.entries) ? data.entries : [];
+      this.nextId = Math.max(data.nextId ?? 1, ...this.entries.map((entry) => entry.id + 1));
+    } catch {
+      // 初回起動時は保存済みの履歴がない
+      // There is no saved journal on the first run.
+    }
+  }
+
+  /**
+   * 内容が変わったファイルだけを記録する
+   * Record only the files whose content changed.
+   * 新しい編集を記録すると、元に戻された編集 (やり直し可能なもの) は破棄されます。
+   * Recording a new edit discards the undone edits, so they can no longer be redone.
+   */
+  async record(command: string, sessionId: string | undefined, files: JournalFileChange[]): Promise<JournalRecordResult> {
+    const changedFiles = files.filter((file) => file.before !== file.after);
+    const skippedFiles = changedFiles.filter((file) => fileChangeBytes(file) > MAX_JOURNAL_FILE_BYTES).map((file) => file.filePath);
+    const recordedFiles = changedFiles.filter((file) => !skippedFiles.includes(file.filePath));
+    if (recordedFiles.length === 0) {
+      return { skippedFiles };
+    }
+
+    const entry: JournalEntry = {
+      id: this.nextId++,
+      timestamp: new Date().toISOString(),
+      command,
+      sessionId,
+      files: recordedFiles,
+      undone: false,
+    };
+    this.entries = this.entries.filter((existing) => !existing.undone);
+    this.entries.push(entry);
+    if (this.entries.length > MAX_JOURNAL_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_JOURNAL_ENTRIES);
+    }
+    let totalBytes = this.entries.reduce((total, existing) => total + entryBytes(existing), 0);
+    while (this.entries.length > 1 && totalBytes > MAX_JOURNAL_BYTES) {
+      totalBytes -= entryBytes(this.entries.shift()!);
+    }
+    await this.save();
+    return { entry, skippedFiles };
+  }
+
+  list(sessionId?: string): JournalEntry[] {
+    return sessionId === undefined ? [...this.entries] : this.entries.filter((entry) => entry.sessionId === sessionId);
+  }
+
+  get(id: number): JournalEntry | undefined {
+    return this.entries.find((entry) => entry.id === id);
+  }
+
+  // 次に元に戻す編集 (元に戻されていない最新のもの)
+  // The next edit to undo: the latest one that has not been undone.
+  nextToUndo(): JournalEntry | undefined {
+    return [...this.entries].reverse().find((entry) => !entry.undone);
+  }
+
+  // 次にやり直す編集 (元に戻されたもののうち最も古いもの)
+  // The next edit to redo: the oldest one that has been undone.
+  nextToRedo(): JournalEntry | undefined {
+    return this.entries.find((entry) => entry.undone);
+  }
+
+  async setUndone(entries: JournalEntry[], undone: boolean): Promise<void> {
+    for (const entry of entries) {
+      entry.undone = undone;
+    }
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    if (!this.storageFile) {
+      return;
+    }
+    try {
+      await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(this.storageFile, '..'));
+      await vscode.workspace.fs.writeFile(this.storageFile, Buffer.from(JSON.stringify({ nextId: this.nextId, entries: this.entries }), 'utf-8'));
+    } catch (error) {
+      console.error('EditJournal: Failed to save the edit journal:', error);
+    }
+  }
+}
+
+/**
+ * 編集を元に戻す (undo) またはやり直す (redo) ときに書き戻す内容を求める
+ * Work out the content to write back when undoing or redoing edits.
+ * 元に戻す場合は新しい編集から順に、やり直す場合は古い編集から順に、各ファイルが想定どおりの内容であることを確認します。
+ * Edits are undone newest first and redone oldest first, and every file must still have the content the edit left (or found) there.
+ */
+export async function planJournalChanges(entries: JournalEntry[], direction: 'undo' | 'redo'): Promise<JournalChangePlan> {
+  const ordered = [...entries].sort((a, b) => direction === 'undo' ? b.id - a.id : a.id - b.id);
+  const targets = new Map<string, string | null>();
+  const conflicts: string[] = [];
+
+  for (const entry of ordered) {
+    for (const file of entry.files) {
+      const current = targets.has(file.filePath) ? targets.get(file.filePath)! : await readFileOrNull(file.filePath);
+      const expected = direction === 'undo' ? file.after : file.before;
+      if (current !== expected) {
+        conflicts.push(direction === 'undo'
+          ? `Edit #${entry.id}: ${file.filePath} has changed since the edit`
+          : `Edit #${entry.id}: ${file.filePath} has changed since the edit was undone`);
+        continue;
+      }
+      targets.set(file.filePath, direction === 'undo' ? file.before : file.after);
+    }
+  }
+  return { targets, conflicts };
+}
+
+function fileChangeBytes(file: JournalFileChange): number {
+  return Buffer.byteLength(file.before ?? '', 'utf-8') + Buffer.byteLength(file.after, 'utf-8');
+}
+
+function entryBytes(entry: JournalEntry): number {
+  return entry.files.reduce((total, file) => total + fileChangeBytes(file), 0);
+}
+
+async function readFileOrNull(filePath: string): Promise<string | null> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath))).toString('utf-8');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import { ConfirmationUI } from './confirmation_ui';
+import { getNewProblemsAfterEdit } from './diagnostics';
+import { DiffViewProvider, fileExistsAtPath } from './DiffViewProvider';
+
+export interface ProposedFileChange {
+  // 変更するファイルの絶対パス
+  // Absolute path of the file to change.
+  filePath: string;
+  newContent: string;
+}
+
+export interface WorkspaceEditFileChange extends ProposedFileChange {
+  // このファイルに適用されるテキスト編集の数
+  // Number of text edits applied to this file.
+  editCount: number;
+}
+
+export interface MultiFileReviewResult {
+  approved: boolean;
+  feedback?: string;
+  // 保存後に新たに発生した問題 (なければ空文字列)
+  // Problems introduced by the saved changes (empty string when there are none).
+  newProblemsMessage: string;
+}
+
+/**
+ * 複数ファイルの変更を差分表示し、1 回の確認でまとめて保存または破棄する
+ * Show diffs for changes to several files and save or discard them all after a single confirmation.
+ * 名前変更やコードアクションのようにワークスペース全体へ及ぶ編集で使用します。
+ * Used by workspace-wide edits such as search-and-replace, renames and code actions.
+ */
+export async function reviewFileChanges(
+  changes: ProposedFileChange[],
+  message: string,
+  skipDialog?: boolean,
+): Promise<MultiFileReviewResult> {
+  const preDiagnostics = vscode.languages.getDiagnostics();
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+
+  // テスト実行時はダイアログを使わずに直接書き込む
+  // Write directly without any dialog when running tests.
+  if (skipDialog) {
+    for (const change of changes) {
+      await vscode.workspace.fs.writeFile(vscode.Uri.file(change.filePath), Buffer.from(change.newContent, 'utf-8'));
+    }
+    return { approved: true, newProblemsMessage: await getNewProblemsMessage(preDiagnostics, changes, workspaceRoot) };
+  }
+
+  const providers: DiffViewProvider[] = [];
+  try {
+    for (const change of changes) {
+      const provider = new DiffViewProvider(workspaceRoot);
+      provider.editType = await fileExistsAtPath(change.filePath) ? 'modify' : 'create';
+      providers.push(provider);
+      await provider.open(change.filePath);
+      await provider.update(change.newContent, true);
+    }
+    providers[0]?.scrollToFirstDiff();
+
+    const confirmResult = await confirmChanges(message, changes.map((change) => change.filePath).join('\n'));
+    if (!confirmResult.approved) {
+      for (const provider of providers) {
+        await provider.revertChanges();
+      }
+      return { approved: false, feedback: confirmResult.feedback, newProblemsMessage: '' };
+    }
+
+    for (const provider of providers) {
+      await provider.saveChanges(false);
+    }
+
+    // 各ファイルの保存後に、全体として新しく発生した問題だけを報告する
+    // Once every file is saved, report only the problems that are new across the workspace.
+    return { approved: true, newProblemsMessage: await getNewProblemsMessage(preDiagnostics, changes, workspaceRoot) };
+  } catch (error) {
+    for (const provider of providers) {
+      await provider.revertChanges();
+    }
+    throw error;
+  } finally {
+    for (const provider of providers) {
+      await provider.reset();
+    }
+  }
+}
+
+async function getNewProblemsMessage(
+  preDiagnostics: [vscode.Uri, vscode.Diagnostic[]][],
+  changes: ProposedFileChange[],
+  workspaceRoot: string,
+): Promise<string> {
+  const newProblems = await getNewProblemsAfterEdit(preDiagnostics, changes.map((change) => vscode.Uri.file(change.filePath)), workspaceRoot);
+  return newProblems.length > 0 ? `\n\nNew problems detected after saving the files:\n${newProblems}` : '';
+}
+
+// WorkspaceEdit の内部エントリのうち、ファイル操作を表す種類 (FileEditType.File)
+// Kind of the internal WorkspaceEdit entries that are file operations (FileEditType.File).
+const FILE_OPERATION_ENTRY_TYPE = 1;
+
+interface WorkspaceEditInternalEntry {
+  _type: number;
+  from?: vscode.Uri;
+  to?: vscode.Uri;
+}
+
+/**
+ * WorkspaceEdit のうち、テキスト編集として確認・適用できない操作を説明する
+ * Describe the operations of a WorkspaceEdit that cannot be reviewed and applied as text edits.
+ * ファイルの作成・名前変更・削除と、ディスク上のファイル以外 (untitled など) への編集が該当します。
+ * These are file creations, renames and deletions, and edits to anything other than files on disk (such as untitled documents).
+ */
+export function describeUnsupportedWorkspaceEditOperations(edit: vscode.WorkspaceEdit): string[] {
+  const operations: string[] = [];
+  // 公開 API ではファイル操作を列挙できないため、拡張ホストの WorkspaceEdit が持つ全エントリを参照する
+  // The public API cannot enumerate file operations, so read all entries kept by the extension host's WorkspaceEdit.
+  // 参照できない場合はファイル操作の有無を確認できないため、編集全体を扱えないものとする
+  // If they cannot be read, whether the edit has file operations is unknown, so treat the whole edit as unsupported.
+  const internal = edit as unknown as { _allEntries?: unknown };
+  if (typeof internal._allEntries !== 'function') {
+    return ['unknown file operations (this version of VS Code does not expose them)'];
+  }
+  const allEntries = (internal._allEntries as () => WorkspaceEditInternalEntry[]).call(edit);
+  for (const entry of allEntries) {
+    if (entry._type !== FILE_OPERATION_ENTRY_TYPE) {
+      continue;
+    }
+    if (entry.from && entry.to) {
+      operations.push(`rename ${entry.from.fsPath} to ${entry.to.fsPath}`);
+    } else if (entry.to) {
+      operations.push(`create ${entry.to.fsPath}`);
+    } else if (entry.from) {
+      operations.push(`delete ${entry.from.fsPath}`);
+    }
+  }
+  for (const [uri, textEdits] of edit.entries()) {
+    if (uri.scheme !== 'file' && textEdits.length > 0) {
+      operations.push(`edit ${uri.toString()}, which is not a file on disk`);
+    }
+  }
+  return operations;
+}
+
+/**
+ * WorkspaceEdit のテキスト編集を、ファイルごとの変更後の内容に変換する
+ * Convert the text edits of a WorkspaceEdit into the new content of each file.
+ * 未保存の変更を含む現在のドキュメントに適用します。
+ * Edits are applied to the current documents, including unsaved changes.
+ *
+ * @throws Error when the edit also creates, renames or deletes files, edits something other than a file on disk,
+ * or changes overlapping ranges, so that it is never applied only in part.
+ */
+export async function workspaceEditToFileChanges(edit: vscode.WorkspaceEdit): Promise<WorkspaceEditFileChange[]> {
+  const unsupported = describeUnsupportedWorkspaceEditOperations(edit);
+  if (unsupported.length > 0) {
+    throw new Error(`The edit includes operations that cannot be applied here, so no changes were made:\n${unsupported.map((operation) => `- ${operation}`).join('\n')}`);
+  }
+
+  const changes: WorkspaceEditFileChange[] = [];
+  for (const [uri, textEdits] of edit.entries()) {
+    if (textEdits.length === 0) {
+      continue;
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    // VS Code と同様に範囲の開始・終了位置の順に並べ、同じ範囲なら元の順序を保つ
+    // Order the edits by range start and end as VS Code does, keeping the original order for equal ranges.
+    const sortedEdits = textEdits
+      .map((textEdit, index) => ({ start: document.offsetAt(textEdit.range.start), end: document.offsetAt(textEdit.range.end), newText: textEdit.newText, index }))
+      .sort((a, b) => a.start - b.start || a.end - b.end || a.index - b.index);
+    for (let i = 1; i < sortedEdits.length; i++) {
+      if (sortedEdits[i].start < sortedEdits[i - 1].end) {
+        throw new Error(`The edit contains overlapping changes to ${uri.fsPath}, so no changes were made`);
+      }
+    }
+
+    // 後ろの編集から適用して、前方のオフセットがずれないようにする
+    // Apply edits from the end so earlier offsets stay valid.
+    let newContent = document.getText();
+    for (const textEdit of sortedEdits.reverse()) {
+      newContent = newContent.slice(0, textEdit.start) + textEdit.newText + newContent.slice(textEdit.end);
+    }
+
+    if (newContent !== document.getText()) {
+      changes.push({ filePath: uri.fsPath, newContent, editCount: textEdits.length });
+    }
+  }
+  return changes;
+}
+
+// commandApprovalPolicy が 'never' の場合は確認せずに承認する
+// Approve without asking when commandApprovalPolicy is 'never'.
+export async function confirmChanges(message: string, detail: string): Promise<{ approved: boolean; feedback?: string }> {
+  try {
+    const config = vscode.workspace.getConfiguration('mcpServer');
+    const approvalPolicy = config.get<'destructiveOnly' | 'always' | 'never'>('commandApprovalPolicy', 'destructiveOnly');
+    if (approvalPolicy === 'never') {
+      return { approved: true };
+    }
+
+    const result = await ConfirmationUI.confirm(message, detail, 'Apply All Changes', 'Discard All Changes');
+    return result.decision === 'approve'
+      ? { approved: true }
+      : { approved: false, feedback: result.feedback };
+  } catch (error) {
+    console.error('Error showing confirmation:', error);
+    return { approved: false };
+  }
+}
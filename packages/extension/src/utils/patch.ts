@@ -0,0 +1,302 @@
+import * as diff from 'diff';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { fileExistsAtPath } from './DiffViewProvider';
+import { WorkspaceEditFileChange } from './multi_file_review';
+
+export interface TextReplacement {
+  // 編集するファイルの絶対パス
+  // Absolute path of the file to edit.
+  filePath: string;
+  oldStr: string;
+  newStr: string;
+  // エラーメッセージで編集を示すラベル (例: "Edit 2", "Hunk @@ -1,3 +1,4 @@")
+  // Label identifying the edit in error messages (e.g. "Edit 2", "Hunk @@ -1,3 +1,4 @@").
+  label: string;
+  // 一致箇所が複数ある場合に最も近いものを選ぶための 1 始まりの行番号
+  // 1-based line used to pick the nearest match when oldStr occurs more than once.
+  lineHint?: number;
+  // 改行をファイルの改行コードに合わせる (パッチの hunk 用)
+  // Adapt line endings to those of the file (used for patch hunks).
+  matchLineEndings?: boolean;
+  // 複数の一致のうち置換する 1 始まりの番号
+  // 1-based index of the match to replace when oldStr occurs more than once.
+  occurrence?: number;
+  // すべての一致を置換する
+  // Replace every match.
+  replaceAll?: boolean;
+}
+
+export interface TextMatch {
+  start: number;
+  end: number;
+  // 一致の開始行 (1 始まり)
+  // 1-based line where the match starts.
+  line: number;
+}
+
+export type ReplaceResult =
+  | { newContent: string; replacedCount: number; ignoredWhitespace: boolean }
+  | { error: string };
+
+export interface ReplacementResult {
+  changes: WorkspaceEditFileChange[];
+  // 適用できなかった編集の説明 (1 つでもあれば何も適用しない)
+  // Descriptions of the edits that could not be applied; nothing is applied when there are any.
+  failures: string[];
+}
+
+/**
+ * unified diff を、ファイルごとの置換の並びに変換する
+ * Convert a unified diff into a list of replacements per file.
+ * 各 hunk の前後の行 (context) と削除行を old、context と追加行を new とします。
+ * Each hunk becomes a replacement of its context and removed lines by its context and added lines.
+ *
+ * @param baseDir - Directory that relative paths in the diff are resolved against.
+ * @param defaultFile - Absolute path of the file patched by hunks without ---/+++ headers.
+ * @throws Error when the diff contains no hunks or deletes a file.
+ */
+export function patchToReplacements(patch: string, baseDir: string, defaultFile: string): TextReplacement[] {
+  const files = diff.parsePatch(patch).filter((file) => file.hunks.length > 0);
+  if (files.length === 0) {
+    throw new Error('The patch does not contain any hunks');
+  }
+
+  const replacements: TextReplacement[] = [];
+  for (const file of files) {
+    if (file.newFileName === '/dev/null') {
+      throw new Error(`Deleting files is not supported: ${file.oldFileName}`);
+    }
+    const fileName = stripGitPrefix(file.oldFileName, file.newFileName);
+    const filePath = fileName ? path.resolve(baseDir, fileName) : defaultFile;
+    for (const hunk of file.hunks) {
+      const { oldStr, newStr } = hunkToStrings(hunk);
+      replacements.push({
+        filePath,
+        oldStr,
+        newStr,
+        label: `Hunk @@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@ in ${fileName || path.basename(defaultFile)}`,
+        lineHint: hunk.newStart,
+        matchLineEndings: true,
+      });
+    }
+  }
+  return replacements;
+}
+
+/**
+ * 置換を順番に適用し、ファイルごとの変更後の内容を返す
+ * Apply the replacements in order and return the new content of each file.
+ * 各置換はそれ以前の置換を適用した内容に対して行います。1 つでも一致しなければ、失敗の一覧だけを返します。
+ * Each replacement sees the result of the previous ones. When any of them does not match, only the failures are returned.
+ */
+export async function applyReplacements(replacements: TextReplacement[]): Promise<ReplacementResult> {
+  const contents = new Map<string, { content: string; editCount: number }>();
+  const failures: string[] = [];
+
+  for (const replacement of replacements) {
+    let file = contents.get(replacement.filePath);
+    if (!file) {
+      const content = await readFileContent(replacement.filePath);
+      if (content === undefined && replacement.oldStr !== '') {
+        failures.push(`${replacement.label}: file ${replacement.filePath} does not exist`);
+        continue;
+      }
+      file = { content: content ?? '', editCount: 0 };
+      contents.set(replacement.filePath, file);
+    }
+
+    const result = replaceInContent(file.content, replacement);
+    if ('error' in result) {
+      failures.push(`${replacement.label}: ${result.error}`);
+      continue;
+    }
+    file.content = result.newContent;
+    file.editCount++;
+  }
+
+  if (failures.length > 0) {
+    return { changes: [], failures };
+  }
+  const changes = [...contents.entries()].map(([filePath, { content, editCount }]) => ({ filePath, newContent: content, editCount }));
+  return { changes, failures };
+}
+
+// 開いているドキュメントがあれば未保存の変更を含めて読む。ファイルがなければ undefined
+// Read the open document (including unsaved changes) when there is one; undefined when the file does not exist.
+async function readFileContent(filePath: string): Promise<string | undefined> {
+  if (!(await fileExistsAtPath(filePath))) {
+    return undefined;
+  }
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+  return document.getText();
+}
+
+/**
+ * 1 つの置換を内容に適用する
+ * Apply a single replacement to some content.
+ * 一致が複数ある場合は occurrence、replaceAll、lineHint のいずれかがなければ曖昧として失敗します。
+ * When oldStr matches more than once, the replacement fails as ambiguous unless occurrence, replaceAll or lineHint is given.
+ */
+export function replaceInContent(
+  content: string,
+  replacement: Omit<TextReplacement, 'filePath' | 'label'>,
+): ReplaceResult {
+  let { oldStr, newStr } = replacement;
+  if (replacement.matchLineEndings && content.includes('\r\n')) {
+    oldStr = oldStr.replace(/\n/g, '\r\n');
+    newStr = newStr.replace(/\n/g, '\r\n');
+  }
+
+  if (oldStr === '') {
+    // context のない追加だけの hunk は、指定行の前に挿入する
+    // Hunks that only add lines without context are inserted before the given line.
+    if (replacement.lineHint === undefined) {
+      return { error: 'old_str must not be empty' };
+    }
+    const offset = lineOffset(content, replacement.lineHint);
+    return { newContent: content.slice(0, offset) + newStr + content.slice(offset), replacedCount: 1, ignoredWhitespace: false };
+  }
+
+  const { matches, ignoredWhitespace } = findTextMatches(content, oldStr);
+  if (matches.length === 0) {
+    return { error: 'text to replace was not found' };
+  }
+  if (ignoredWhitespace) {
+    // 一致は oldStr の前後の空白を含まないため、newStr からも同じ空白を取り除く
+    // The match excludes the leading and trailing whitespace of oldStr, so drop the same whitespace from newStr.
+    newStr = stripSurroundingWhitespace(newStr, oldStr);
+  }
+
+  let selected: TextMatch[];
+  if (replacement.replaceAll) {
+    selected = matches;
+  } else if (replacement.occurrence !== undefined) {
+    if (replacement.occurrence < 1 || replacement.occurrence > matches.length) {
+      return { error: `occurrence ${replacement.occurrence} is out of range; the text to replace was found ${matches.length} time${matches.length === 1 ? '' : 's'}` };
+    }
+    selected = [matches[replacement.occurrence - 1]];
+  } else if (matches.length === 1) {
+    selected = matches;
+  } else if (replacement.lineHint !== undefined) {
+    // パッチの行番号に最も近い一致を選ぶ
+    // Pick the match nearest to the line number given by the patch.
+    const hint = replacement.lineHint;
+    selected = [matches.reduce((nearest, match) => Math.abs(match.line - hint) < Math.abs(nearest.line - hint) ? match : nearest)];
+  } else {
+    return {
+      error: `text to replace was found ${matches.length} times (lines ${matches.map((match) => match.line).join(', ')}); `
+        + 'include more surrounding lines to make it unique, or set occurrence or replace_all',
+    };
+  }
+
+  // 後ろの一致から置換して、前方のオフセットがずれないようにする
+  // Replace from the last match so earlier offsets stay valid.
+  let newContent = content;
+  for (const match of [...selected].reverse()) {
+    newContent = newContent.slice(0, match.start) + newStr + newContent.slice(match.end);
+  }
+  return { newContent, replacedCount: selected.length, ignoredWhitespace };
+}
+
+/**
+ * 重ならない一致をすべて探す。完全一致がなければ空白の違いを無視して探す
+ * Find every non-overlapping match, ignoring differences in whitespace when there is no exact match.
+ * 空白を無視する場合、前後の空白を除き、連続する空白 (改行・インデントを含む) を任意の空白と一致させます。
+ * When ignoring whitespace, leading and trailing whitespace is dropped and each run of whitespace (including newlines and indentation) matches any run.
+ */
+export function findTextMatches(content: string, searchStr: string): { matches: TextMatch[]; ignoredWhitespace: boolean } {
+  const matches: TextMatch[] = [];
+  for (let index = content.indexOf(searchStr); index !== -1; index = content.indexOf(searchStr, index + searchStr.length)) {
+    matches.push({ start: index, end: index + searchStr.length, line: lineAt(content, index) });
+  }
+  if (matches.length > 0 || searchStr.trim() === '') {
+    return { matches, ignoredWhitespace: false };
+  }
+
+  const pattern = searchStr
+    .trim()
+    .split(/\s+/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+  for (const match of content.matchAll(new RegExp(pattern, 'g'))) {
+    matches.push({ start: match.index, end: match.index + match[0].length, line: lineAt(content, match.index) });
+  }
+  return { matches, ignoredWhitespace: matches.length > 0 };
+}
+
+// template の前後の空白と同じものが text の前後にあれば取り除く
+// Remove the leading and trailing whitespace of template from text where text has the same whitespace.
+function stripSurroundingWhitespace(text: string, template: string): string {
+  const leading = /^\s*/.exec(template)![0];
+  const trailing = /\s*$/.exec(template)![0];
+  let result = text.startsWith(leading) ? text.slice(leading.length) : text;
+  if (trailing && result.endsWith(trailing)) {
+    result = result.slice(0, -trailing.length);
+  }
+  return result;
+}
+
+// オフセットの 1 始まりの行番号
+// 1-based line number of an offset.
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let index = content.indexOf('\n'); index !== -1 && index < offset; index = content.indexOf('\n', index + 1)) {
+    line++;
+  }
+  return line;
+}
+
+// 1 始まりの行の先頭オフセット (行数を超える場合は末尾)
+// Offset of the start of a 1-based line (the end of the content past the last line).
+function lineOffset(content: string, line: number): number {
+  let offset = 0;
+  for (let current = 1; current < line; current++) {
+    const next = content.indexOf('\n', offset);
+    if (next === -1) {
+      return content.length;
+    }
+    offset = next + 1;
+  }
+  return offset;
+}
+
+// 変更後のファイル名を、git 形式 (a/..., b/...) の接頭辞を取り除いて返す (ヘッダーがなければ空文字列)
+// Return the new file name without the git-style a/ and b/ prefixes (an empty string when there are no headers).
+function stripGitPrefix(oldFileName: string | undefined, newFileName: string | undefined): string {
+  const isGitStyle = (oldFileName === '/dev/null' || !!oldFileName?.startsWith('a/'))
+    && (newFileName === '/dev/null' || !!newFileName?.startsWith('b/'));
+  const fileName = newFileName || oldFileName || '';
+  return isGitStyle ? fileName.slice(2) : fileName;
+}
+
+// hunk の行から置換前後の文字列を組み立てる
+// Build the text before and after a hunk from its lines.
+function hunkToStrings(hunk: diff.Hunk): { oldStr: string; newStr: string } {
+  let oldStr = '';
+  let newStr = '';
+  let previous = ' ';
+  for (const line of hunk.lines) {
+    const marker = line[0];
+    const text = line.slice(1);
+    if (marker === '\\') {
+      // "\ No newline at end of file" は直前の行の改行を取り除く
+      // "\ No newline at end of file" removes the newline of the previous line.
+      if (previous !== '+') {
+        oldStr = oldStr.slice(0, -1);
+      }
+      if (previous !== '-') {
+        newStr = newStr.slice(0, -1);
+      }
+      continue;
+    }
+    if (marker !== '+') {
+      oldStr += `${text}\n`;
+    }
+    if (marker !== '-') {
+      newStr += `${text}\n`;
+    }
+    previous = marker;
+  }
+  return { oldStr, newStr };
+}
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+
+// 各行の最大表示文字数
+// Maximum number of characters shown per source line.
+const MAX_LINE_LENGTH = 500;
+
+export interface SourcePositionQuery {
+  // 1 始まりの行番号
+  // 1-based line number.
+  line?: number;
+  // 1 始まりの列番号
+  // 1-based column number.
+  column?: number;
+  // 位置を特定するシンボル名 (line と併用するとその行内で検索する)
+  // Symbol name used to locate the position; combined with line, only that line is searched.
+  symbol?: string;
+}
+
+/**
+ * ファイルの内容を行ごとに読み込む
+ * Read the lines of a file.
+ * 未保存の変更を反映するため、開いているドキュメントがあればそちらを優先します。
+ * An open document is preferred so unsaved changes are reflected.
+ */
+export async function readSourceLines(uri: vscode.Uri): Promise<string[] | undefined> {
+  try {
+    const openDocument = vscode.workspace.textDocuments.find((document) => document.uri.toString() === uri.toString());
+    const content = openDocument
+      ? openDocument.getText()
+      : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+    return content.split(/\r?\n/);
+  } catch {
+    return undefined;
+  }
+}
+
+// 行・列は 1 始まりで表示する
+// Lines and columns are shown 1-based.
+export function formatLocation(uri: vscode.Uri, position: vscode.Position): string {
+  return `${uri.fsPath}:${position.line + 1}:${position.character + 1}`;
+}
+
+// 範囲の行を `N:`、前後の文脈行を `N-` として grep 形式で整形する
+// Format the lines of a range as `N:` and the surrounding context as `N-`, grep style.
+export function formatSourceLines(lines: string[], range: vscode.Range, contextLines: number): string {
+  const first = Math.max(0, range.start.line - contextLines);
+  const last = Math.min(lines.length - 1, range.end.line + contextLines);
+  const output: string[] = [];
+  for (let line = first; line <= last; line++) {
+    const isTarget = line >= range.start.line && line <= range.end.line;
+    output.push(`  ${line + 1}${isTarget ? ':' : '-'} ${lines[line].slice(0, MAX_LINE_LENGTH)}`);
+  }
+  return output.join('\n');
+}
+
+// 1 始まりの行範囲を行全体の Range に変換する (line を省略するとファイル全体)
+// Convert a 1-based line span to a Range covering whole lines; without line, the whole file.
+export function getLineRange(document: vscode.TextDocument, line?: number, endLine?: number): vscode.Range {
+  if (line === undefined) {
+    return new vscode.Range(0, 0, document.lineCount - 1, document.lineAt(document.lineCount - 1).text.length);
+  }
+  const last = endLine ?? line;
+  if (line > document.lineCount || last > document.lineCount || last < line) {
+    throw new Error(`Lines ${line}-${last} are out of range (the file has ${document.lineCount} lines)`);
+  }
+  return new vscode.Range(line - 1, 0, last - 1, document.lineAt(last - 1).text.length);
+}
+
+/**
+ * 行・列またはシンボル名からドキュメント内の位置を求める
+ * Resolve a position in a document from a line/column or a symbol name.
+ * シンボル名だけの場合は、ドキュメントシンボルを優先し、見つからなければ最初に現れる単語を使用します。
+ * With only a symbol name, document symbols are preferred before falling back to the first whole-word occurrence.
+ */
+export async function resolveSourcePosition(document: vscode.TextDocument, query: SourcePositionQuery): Promise<vscode.Position> {
+  if (query.line !== undefined) {
+    if (query.line < 1 || query.line > document.lineCount) {
+      throw new Error(`Line ${query.line} is out of range (the file has ${document.lineCount} lines)`);
+    }
+    const lineText = document.lineAt(query.line - 1).text;
+
+    if (query.column !== undefined) {
+      return new vscode.Position(query.line - 1, Math.min(Math.max(query.column - 1, 0), lineText.length));
+    }
+    if (query.symbol) {
+      const character = findWord(lineText, query.symbol);
+      if (character === undefined) {
+        throw new Error(`Symbol "${query.symbol}" was not found on line ${query.line}`);
+      }
+      return new vscode.Position(query.line - 1, character);
+    }
+    return new vscode.Position(query.line - 1, lineText.length - lineText.trimStart().length);
+  }
+
+  if (!query.symbol) {
+    throw new Error('Specify either line (and optionally column) or symbol');
+  }
+
+  const [declared] = findDocumentSymbols(await getDocumentSymbols(document.uri), query.symbol);
+  if (declared) {
+    return declared.symbol.selectionRange.start;
+  }
+
+  for (let line = 0; line < document.lineCount; line++) {
+    const character = findWord(document.lineAt(line).text, query.symbol);
+    if (character !== undefined) {
+      return new vscode.Position(line, character);
+    }
+  }
+  throw new Error(`Symbol "${query.symbol}" was not found in ${document.uri.fsPath}`);
+}
+
+/**
+ * ドキュメントシンボルを階層構造で取得する
+ * Get the document symbols as a tree.
+ * SymbolInformation だけを返すプロバイダーの場合は、階層なしの DocumentSymbol に変換します。
+ * Providers that only return SymbolInformation are converted to flat DocumentSymbols.
+ */
+export async function getDocumentSymbols(uri: vscode.Uri): Promise<vscode.DocumentSymbol[]> {
+  const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+    'vscode.executeDocumentSymbolProvider',
+    uri,
+  ) ?? [];
+  return symbols.map((symbol) => 'selectionRange' in symbol
+    ? symbol
+    : new vscode.DocumentSymbol(symbol.name, symbol.containerName, symbol.kind, symbol.location.range, symbol.location.range));
+}
+
+export interface SymbolMatch {
+  symbol: vscode.DocumentSymbol;
+  // ルートからの親シンボル名
+  // Names of the enclosing symbols, from the root.
+  ancestors: string[];
+}
+
+/**
+ * 名前でシンボルを検索する (出現順)
+ * Find symbols by name, in document order.
+ * `MyClass.method` のようにドット区切りで親シンボルを指定できます。
+ * Enclosing symbols can be given with dots, as in `MyClass.method`.
+ */
+export function findDocumentSymbols(symbols: vscode.DocumentSymbol[], name: string): SymbolMatch[] {
+  const segments = name.split('.');
+  const matches: SymbolMatch[] = [];
+  const visit = (children: vscode.DocumentSymbol[], ancestors: string[]) => {
+    for (const symbol of children) {
+      const path = [...ancestors, symbol.name];
+      if (symbol.name === name || (segments.length <= path.length && segments.every((segment, index) => path[path.length - segments.length + index] === segment))) {
+        matches.push({ symbol, ancestors });
+      }
+      visit(symbol.children ?? [], path);
+    }
+  };
+  visit(symbols, []);
+  return matches.sort((a, b) => a.symbol.range.start.compareTo(b.symbol.range.start));
+}
+
+function findWord(text: string, word: string): number | undefined {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).exec(text);
+  return match?.index;
+}
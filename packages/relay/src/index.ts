@@ -3,6 +3,7 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { CallToolRequestSchema, CallToolResult, JSONRPCRequest, JSONRPCResponse, ListToolsRequestSchema, ListToolsResult } from '@modelcontextprotocol/sdk/types.js';
+import { createHash } from 'node:crypto';
 import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
@@ -10,57 +11,34 @@ import { initialTools } from './initial_tools.js';
 
 const CACHE_DIR = path.join(os.homedir(), '.vscode-as-mcp-relay-cache');
 const TOOLS_CACHE_FILE = path.join(CACHE_DIR, 'tools-list-cache.json');
+// 拡張機能が書き出す認証トークンファイル
+// Auth token file written by the VSCode extension.
+const AUTH_TOKEN_FILE = path.join(os.homedir(), '.vscode-as-mcp-server', 'auth-token');
 const MAX_RETRIES = 3;
 const RETRY_INTERVAL = 1000; // 1 second
+const EVENTS_RECONNECT_INTERVAL = 5000; // 5 seconds
+
+// ツール一覧の内容を比較するためのハッシュ
+// Hash used to compare the contents of tool lists.
+function hashTools(tools: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify(tools)).digest('hex');
+}
 
 class MCPRelay {
   private mcpServer: McpServer;
-  constructor(readonly serverUrl: string) {
+  constructor(readonly serverUrl: string, private readonly token?: string) {
     this.mcpServer = new McpServer({
       name: 'vscode-as-mcp',
       version: '0.0.1',
     }, {
       capabilities: {
-        tools: {},
+        tools: { listChanged: true },
       },
     });
 
-    // Periodically call listTools to update the tools list
-    setInterval(async () => {
-      let tools: any[];
-      try {
-        const resp = await this.requestWithRetry(this.serverUrl, JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'tools/list',
-          params: {},
-          id: Math.floor(Math.random() * 1000000),
-        } as JSONRPCRequest));
-        const parsedResponse = resp as JSONRPCResponse;
-        tools = parsedResponse.result.tools as any[];
-      } catch (err) {
-        return;
-      }
-
-      const cachedTools = await this.getToolsCache();
-
-      // Compare the fetched tools with the cached ones
-      if (cachedTools && cachedTools.length === tools.length) {
-        console.error('Fetched tools list is the same as the cached one, not updating cache');
-        return { tools: cachedTools };
-      }
-
-      // Notify to user that tools have been updated and restart the client
-      try {
-        await this.requestWithRetry(this.serverUrl + '/notify-tools-updated', '');
-      } catch (err) {
-        console.error(`Failed to notify tools updated: ${(err as Error).message}`);
-      }
-
-      try {
-        await this.saveToolsCache(tools);
-      } catch (cacheErr) {
-        console.error(`Failed to cache tools response: ${(cacheErr as Error).message}`);
-      }
+    // Periodically call listTools to update the tools list (fallback when the event stream is unavailable)
+    setInterval(() => {
+      void this.refreshTools();
     }, 30000); // every 30 seconds
 
     this.mcpServer.server.setRequestHandler(ListToolsRequestSchema, async (request): Promise<ListToolsResult> => {
@@ -113,6 +91,109 @@ class MCPRelay {
       }
     });
   }
+  // ツール一覧を取得し、キャッシュと内容が異なればクライアントに tools/list_changed を通知する
+  // Fetch the tool list and send tools/list_changed to the client when it differs from the cache.
+  async refreshTools(): Promise<void> {
+    let tools: any[];
+    try {
+      const resp = await this.requestWithRetry(this.serverUrl, JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'tools/list',
+        params: {},
+        id: Math.floor(Math.random() * 1000000),
+      } as JSONRPCRequest));
+      const parsedResponse = resp as JSONRPCResponse;
+      tools = parsedResponse.result.tools as any[];
+    } catch (err) {
+      return;
+    }
+
+    const cachedTools = await this.getToolsCache();
+
+    // Compare the fetched tools with the cached ones
+    if (cachedTools && hashTools(cachedTools) === hashTools(tools)) {
+      console.error('Fetched tools list is the same as the cached one, not updating cache');
+      return;
+    }
+
+    try {
+      await this.saveToolsCache(tools);
+    } catch (cacheErr) {
+      console.error(`Failed to cache tools response: ${(cacheErr as Error).message}`);
+    }
+
+    try {
+      await this.mcpServer.server.sendToolListChanged();
+      console.error('Sent tools/list_changed to the client');
+    } catch (err) {
+      console.error(`Failed to send tools/list_changed: ${(err as Error).message}`);
+    }
+  }
+
+  // 拡張機能の /events を購読し、tools/list_changed を受け取ったら一覧を更新する (切断時は再接続)
+  // Subscribe to the extension's /events and refresh the list on tools/list_changed, reconnecting when dropped.
+  async subscribeToEvents(): Promise<never> {
+    for (;;) {
+      try {
+        const response = await fetch(this.serverUrl + '/events', {
+          headers: {
+            'Accept': 'text/event-stream',
+            ...await this.authHeaders(),
+          },
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Event stream request failed with status ${response.status}`);
+        }
+
+        // 接続中にツールが変わっている可能性があるため、購読開始時に一度確認する
+        // Tools may have changed while disconnected, so check once on (re)connect.
+        void this.refreshTools();
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) {
+            break;
+          }
+          buffer += decoder.decode(value, { stream: true });
+          let separatorIndex: number;
+          while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+            const event = buffer.slice(0, separatorIndex);
+            buffer = buffer.slice(separatorIndex + 2);
+            await this.handleServerEvent(event);
+          }
+        }
+        console.error('Event stream closed by the server');
+      } catch (err) {
+        console.error(`Event stream error: ${(err as Error).message}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, EVENTS_RECONNECT_INTERVAL));
+    }
+  }
+
+  async handleServerEvent(event: string): Promise<void> {
+    const data = event.split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice('data:'.length).trimStart())
+      .join('\n');
+    if (!data) {
+      return;
+    }
+
+    let message: { method?: string };
+    try {
+      message = JSON.parse(data);
+    } catch (err) {
+      console.error(`Failed to parse server event: ${(err as Error).message}`);
+      return;
+    }
+    if (message.method === 'notifications/tools/list_changed') {
+      await this.refreshTools();
+    }
+  }
+
   // キャッシュディレクトリの初期化
   // Initialize the cache directory.
   async initCacheDir(): Promise<void> {
@@ -154,6 +235,25 @@ class MCPRelay {
     }
   }
 
+  // --token が指定されていなければ、ローテーションに追従するため毎回ファイルから読み込む
+  // Without --token, read the file on every request so rotated tokens are picked up.
+  async getAuthToken(): Promise<string | undefined> {
+    if (this.token) {
+      return this.token;
+    }
+    try {
+      const token = (await fs.readFile(AUTH_TOKEN_FILE, 'utf8')).trim();
+      return token || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async authHeaders(): Promise<Record<string, string>> {
+    const token = await this.getAuthToken();
+    return token ? { 'Authorization': `Bearer ${token}` } : {};
+  }
+
   async requestWithRetry(url: string, body: string): Promise<unknown> {
     let lastError: Error | null = null;
 
@@ -167,13 +267,19 @@ class MCPRelay {
         const response = await fetch(url, {
           method: 'POST',
           headers: {
-            'Content-Type': 'application/json'
+            'Content-Type': 'application/json',
+            ...await this.authHeaders(),
           },
           body: body,
         });
 
         const responseText = await response.text();
 
+        if (response.status === 401) {
+          lastError = new Error(`Unauthorized: check the auth token (${AUTH_TOKEN_FILE} or --token)`);
+          continue;
+        }
+
         // Only status codes >= 500 are errors
         if (response.status >= 500) {
           lastError = new Error(`Request failed with status ${response.status}: ${responseText}`);
@@ -189,8 +295,9 @@ class MCPRelay {
     throw new Error(`All retry attempts failed: ${lastError?.message}`);
   }
 
-  start() {
-    return this.mcpServer.connect(new StdioServerTransport());
+  async start() {
+    await this.mcpServer.connect(new StdioServerTransport());
+    void this.subscribeToEvents();
   }
 };
 
@@ -198,21 +305,25 @@ class MCPRelay {
 // Parse the command-line arguments.
 function parseArgs() {
   const args = process.argv.slice(2);
-  let serverUrl = 'http://localhost:60100';
+  let serverUrl = 'http://127.0.0.1:60100';
+  let token: string | undefined;
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--server-url' && i + 1 < args.length) {
       serverUrl = args[i + 1];
       i++;
+    } else if (args[i] === '--token' && i + 1 < args.length) {
+      token = args[i + 1];
+      i++;
     }
   }
 
-  return { serverUrl };
+  return { serverUrl, token };
 }
 
 try {
-  const { serverUrl } = parseArgs();
-  const relay = new MCPRelay(serverUrl);
+  const { serverUrl, token } = parseArgs();
+  const relay = new MCPRelay(serverUrl, token);
   await relay.start();
 } catch (err) {
   console.error(`Fatal error: ${(err as Error).message}`);